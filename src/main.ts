@@ -9,6 +9,7 @@ import { initResults } from "./ui/results";
 import { initFileInput } from "./ui/fileInput";
 import { initCamera } from "./ui/camera";
 import { initQrModal } from "./ui/qrModal";
+import { initPasswordPrompt } from "./ui/passwordPrompt";
 import { initThemeSwitcher } from "./ui/theme";
 import { initExportControls } from "./ui/exportControls";
 import { initNavigation } from "./ui/navigation";
@@ -49,6 +50,7 @@ function initializeApp(): void {
   initTabs();
   initAccordion();
   initQrModal();
+  initPasswordPrompt();
   initResults();
   initFileInput();
   initCamera();
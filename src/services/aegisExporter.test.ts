@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { exportToAegisVault } from "./aegisExporter";
+import { processJson } from "./jsonProcessor";
+import { AegisDatabase, MigrationOtpParameter } from "../types";
+
+const mockOtps: MigrationOtpParameter[] = [
+  {
+    secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+    name: "test-account",
+    issuer: "TestIssuer",
+    algorithm: 2, // SHA256
+    digits: 2, // 8 digits
+    type: 2, // TOTP
+    counter: 0,
+    period: 60,
+  },
+  {
+    secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+    name: "counter-account",
+    issuer: "CounterIssuer",
+    algorithm: 1, // SHA1
+    digits: 1, // 6 digits
+    type: 1, // HOTP
+    counter: 42,
+  },
+];
+
+describe("Aegis Exporter", () => {
+  it("should export a plaintext Aegis vault", async () => {
+    const vault = await exportToAegisVault(mockOtps);
+
+    expect(vault.header).toEqual({ slots: null, params: null });
+    const db = vault.db as AegisDatabase;
+    expect(db.entries).toHaveLength(2);
+
+    const [totp, hotp] = db.entries;
+    expect(totp.type).toBe("totp");
+    expect(totp.name).toBe("test-account");
+    expect(totp.issuer).toBe("TestIssuer");
+    expect(totp.uuid).toMatch(/^[0-9a-f-]{36}$/);
+    expect(totp.info).toEqual({
+      secret: "JBSWY3DPEHPK3PXP",
+      algo: "SHA256",
+      digits: 8,
+      period: 60,
+    });
+
+    expect(hotp.type).toBe("hotp");
+    expect(hotp.info.counter).toBe(42);
+    expect(hotp.info.period).toBeUndefined();
+  });
+
+  it("should round-trip a password-protected Aegis vault", async () => {
+    const vault = await exportToAegisVault(mockOtps, "hunter2");
+
+    expect(typeof vault.db).toBe("string");
+    expect(vault.header.slots).toHaveLength(1);
+    expect(vault.header.slots![0].type).toBe(1); // Password slot
+
+    const requestPassword = vi.fn().mockResolvedValue("hunter2");
+    const imported = await processJson(JSON.stringify(vault), requestPassword);
+
+    expect(imported).toHaveLength(2);
+    expect(imported[0].name).toBe("test-account");
+    expect(imported[0].period).toBe(60);
+    expect(encode(imported[0].secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+    expect(imported[1].counter).toBe(42);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * This module handles exporting OTP secrets as an Aegis Authenticator vault.
+ * The vault can be saved either as plaintext or encrypted with a password,
+ * using the same scrypt key slot and AES-GCM scheme as Aegis itself.
+ */
+import { encode as base32Encode } from "thirty-two";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import {
+  AegisDatabase,
+  AegisEntry,
+  AegisSlot,
+  AegisVault,
+  MigrationOtpParameter,
+} from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { getOtpTypeInfo } from "../ui/otp";
+import { ALGORITHM_STRING_MAP, DIGITS_VALUE_MAP } from "./otpFormatter";
+import { AEGIS_PASSWORD_SLOT_TYPE } from "./aegisProcessor";
+import { STEAM_DIGITS } from "./steamProcessor";
+import { uint8ArrayToBase64 } from "./protobufProcessor";
+import { aesGcmEncrypt, randomBytes, uint8ArrayToHex } from "./encryption";
+import { generateUUID } from "./uuid";
+import { triggerDownload } from "./download";
+
+/**
+ * Default values used when constructing an Aegis vault. The scrypt
+ * parameters match those used by the Aegis app for new password slots.
+ */
+const AEGIS_DEFAULTS = {
+  VAULT_VERSION: 1,
+  DB_VERSION: 3,
+  PERIOD: 30,
+  SCRYPT_N: 2 ** 15,
+  SCRYPT_R: 8,
+  SCRYPT_P: 1,
+};
+
+/**
+ * Converts an OTP parameter into an Aegis vault entry.
+ * @param otp The OTP parameter to convert.
+ * @returns The Aegis entry.
+ */
+function mapToAegisEntry(otp: MigrationOtpParameter): AegisEntry {
+  const typeInfo = getOtpTypeInfo(otp.type);
+  const entry: AegisEntry = {
+    type: typeInfo.key,
+    uuid: generateUUID(),
+    name: otp.name,
+    issuer: otp.issuer,
+    note: "",
+    favorite: false,
+    icon: null,
+    info: {
+      secret: base32Encode(otp.secret).toString().replace(/=/g, ""),
+      algo: ALGORITHM_STRING_MAP[otp.algorithm] || "SHA1",
+      digits:
+        typeInfo.key === "steam"
+          ? STEAM_DIGITS
+          : DIGITS_VALUE_MAP[otp.digits] || 6,
+    },
+    groups: [],
+  };
+
+  if (typeInfo.key === "hotp") {
+    // The protobuf library decodes int64 as a Long object. Convert it to a number.
+    entry.info.counter = Number(otp.counter || 0);
+  } else {
+    entry.info.period = otp.period || AEGIS_DEFAULTS.PERIOD;
+  }
+  return entry;
+}
+
+/**
+ * Encrypts an Aegis database with a password, creating a single scrypt
+ * password slot that protects a newly generated master key.
+ * @param db The database to encrypt.
+ * @param password The password to protect the vault with.
+ * @returns A promise that resolves with the encrypted vault.
+ */
+async function encryptAegisDatabase(
+  db: AegisDatabase,
+  password: string
+): Promise<AegisVault> {
+  const masterKey = randomBytes(32);
+  const salt = randomBytes(32);
+  const derivedKey = await scryptAsync(password, salt, {
+    N: AEGIS_DEFAULTS.SCRYPT_N,
+    r: AEGIS_DEFAULTS.SCRYPT_R,
+    p: AEGIS_DEFAULTS.SCRYPT_P,
+    dkLen: 32,
+  });
+
+  // AES-GCM appends the 16-byte tag to the ciphertext; Aegis stores it separately.
+  const keyNonce = randomBytes(12);
+  const encryptedKey = await aesGcmEncrypt(derivedKey, keyNonce, masterKey);
+  const slot: AegisSlot = {
+    type: AEGIS_PASSWORD_SLOT_TYPE,
+    uuid: generateUUID(),
+    key: uint8ArrayToHex(encryptedKey.slice(0, -16)),
+    key_params: {
+      nonce: uint8ArrayToHex(keyNonce),
+      tag: uint8ArrayToHex(encryptedKey.slice(-16)),
+    },
+    n: AEGIS_DEFAULTS.SCRYPT_N,
+    r: AEGIS_DEFAULTS.SCRYPT_R,
+    p: AEGIS_DEFAULTS.SCRYPT_P,
+    salt: uint8ArrayToHex(salt),
+    repaired: true,
+    is_backup: false,
+  };
+
+  const dbNonce = randomBytes(12);
+  const dbBytes = new TextEncoder().encode(JSON.stringify(db));
+  const encryptedDb = await aesGcmEncrypt(masterKey, dbNonce, dbBytes);
+
+  return {
+    version: AEGIS_DEFAULTS.VAULT_VERSION,
+    header: {
+      slots: [slot],
+      params: {
+        nonce: uint8ArrayToHex(dbNonce),
+        tag: uint8ArrayToHex(encryptedDb.slice(-16)),
+      },
+    },
+    db: uint8ArrayToBase64(encryptedDb.slice(0, -16)),
+  };
+}
+
+/**
+ * Builds an Aegis vault from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @param password An optional password. If given, the vault is encrypted.
+ * @returns A promise that resolves with the vault object.
+ */
+export async function exportToAegisVault(
+  otps: MigrationOtpParameter[],
+  password?: string
+): Promise<AegisVault> {
+  const db: AegisDatabase = {
+    version: AEGIS_DEFAULTS.DB_VERSION,
+    entries: otps.map(mapToAegisEntry),
+    groups: [],
+  };
+
+  if (password) {
+    return encryptAegisDatabase(db, password);
+  }
+
+  return {
+    version: AEGIS_DEFAULTS.VAULT_VERSION,
+    header: { slots: null, params: null },
+    db,
+  };
+}
+
+/**
+ * Exports the given OTPs as an Aegis vault file.
+ * @param otpsToExport The OTP parameters to export.
+ * @param password An optional password used to encrypt the vault.
+ */
+export async function downloadAsAegis(
+  otpsToExport: MigrationOtpParameter[],
+  password?: string
+): Promise<void> {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  const vault = await exportToAegisVault(otpsToExport, password);
+  const jsonString = JSON.stringify(vault, null, 2);
+  triggerDownload(
+    password ? "aegis-export-encrypted.json" : "aegis-export.json",
+    jsonString,
+    "application/json;charset=utf-8;"
+  );
+}
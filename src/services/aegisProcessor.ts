@@ -0,0 +1,190 @@
+/**
+ * This module handles importing vault exports from Aegis Authenticator
+ * (`aegis-export-*.json`). It detects the vault structure, decrypts
+ * password-protected vaults, and maps each supported entry into the standard
+ * `MigrationOtpParameter` format.
+ */
+import { scryptAsync } from "@noble/hashes/scrypt";
+import {
+  AegisDatabase,
+  AegisEntry,
+  AegisSlot,
+  AegisVault,
+  MigrationOtpParameter,
+  PasswordProvider,
+} from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { base64ToUint8Array } from "./protobufProcessor";
+import {
+  aesGcmDecrypt,
+  concatBytes,
+  decryptWithPassword,
+  hexToUint8Array,
+} from "./encryption";
+import { logger } from "./logger";
+
+/** The Aegis slot type for a master key protected by a password. */
+export const AEGIS_PASSWORD_SLOT_TYPE = 1;
+
+/**
+ * Type guard to check if the parsed JSON is an Aegis vault export.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like an Aegis vault.
+ */
+export function isAegisVault(data: unknown): data is AegisVault {
+  if (typeof data !== "object" || data === null) return false;
+  const vault = data as AegisVault;
+  return (
+    typeof vault.version === "number" &&
+    typeof vault.header === "object" &&
+    vault.header !== null &&
+    vault.db !== undefined
+  );
+}
+
+/**
+ * Converts a single Aegis entry into the raw account format.
+ * @param entry The Aegis vault entry.
+ * @returns A raw account, or null if the entry type is not supported.
+ */
+function mapAegisEntry(entry: AegisEntry): RawOtpAccount | null {
+  const type = entry.type.toLowerCase();
+  if (type !== "totp" && type !== "hotp" && type !== "steam") {
+    return null;
+  }
+
+  const rawAccount: RawOtpAccount = {
+    name: entry.name,
+    issuer: entry.issuer,
+    secret: entry.info.secret,
+    algorithm: entry.info.algo,
+    digits: entry.info.digits,
+    type: type,
+  };
+
+  if (type === "totp") {
+    rawAccount.period = entry.info.period;
+  } else if (type === "hotp") {
+    rawAccount.counter = entry.info.counter;
+  }
+  return rawAccount;
+}
+
+/**
+ * Processes the entries of a plaintext Aegis database.
+ * @param db The Aegis database object.
+ * @returns An array of OTP parameters.
+ */
+export function processAegisDatabase(
+  db: AegisDatabase
+): MigrationOtpParameter[] {
+  if (!Array.isArray(db.entries)) {
+    throw new Error("Invalid Aegis vault: 'entries' array not found.");
+  }
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const entry of db.entries) {
+    const rawAccount = mapAegisEntry(entry);
+    if (!rawAccount) {
+      logger.warn(
+        `Skipping unsupported Aegis entry type "${entry.type}": ${entry.name}`
+      );
+      continue;
+    }
+    otpParameters.push(mapToMigrationOtpParameter(rawAccount));
+  }
+  return otpParameters;
+}
+
+/**
+ * Attempts to recover the vault's master key from its password slots.
+ * @param slots The password slots of the vault.
+ * @param password The password entered by the user.
+ * @returns The master key, or null if the password does not unlock any slot.
+ */
+async function unlockMasterKey(
+  slots: AegisSlot[],
+  password: string
+): Promise<Uint8Array | null> {
+  for (const slot of slots) {
+    const derivedKey = await scryptAsync(
+      password,
+      hexToUint8Array(slot.salt!),
+      { N: slot.n!, r: slot.r!, p: slot.p!, dkLen: 32 }
+    );
+    const masterKey = await aesGcmDecrypt(
+      derivedKey,
+      hexToUint8Array(slot.key_params.nonce),
+      concatBytes(
+        hexToUint8Array(slot.key),
+        hexToUint8Array(slot.key_params.tag)
+      )
+    );
+    if (masterKey) return masterKey;
+  }
+  return null;
+}
+
+/**
+ * Decrypts the database of a password-protected Aegis vault.
+ * @param vault The parsed, encrypted Aegis vault.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with the decrypted database.
+ */
+async function decryptAegisDatabase(
+  vault: AegisVault,
+  requestPassword?: PasswordProvider
+): Promise<AegisDatabase> {
+  const params = vault.header.params;
+  const passwordSlots = (vault.header.slots || []).filter(
+    (slot) => slot.type === AEGIS_PASSWORD_SLOT_TYPE
+  );
+  if (!params || typeof vault.db !== "string" || passwordSlots.length === 0) {
+    throw new Error(
+      "This Aegis vault is encrypted, but has no password slot that can be unlocked."
+    );
+  }
+  const encryptedDb = concatBytes(
+    base64ToUint8Array(vault.db),
+    hexToUint8Array(params.tag)
+  );
+
+  return decryptWithPassword(
+    requestPassword,
+    "Enter the password for this Aegis vault.",
+    async (password) => {
+      const masterKey = await unlockMasterKey(passwordSlots, password);
+      if (!masterKey) return null;
+
+      const dbBytes = await aesGcmDecrypt(
+        masterKey,
+        hexToUint8Array(params.nonce),
+        encryptedDb
+      );
+      if (!dbBytes) {
+        throw new Error(
+          "Failed to decrypt the Aegis vault. The file may be corrupted."
+        );
+      }
+      return JSON.parse(new TextDecoder().decode(dbBytes)) as AegisDatabase;
+    }
+  );
+}
+
+/**
+ * Processes an Aegis vault export, decrypting it first if necessary.
+ * @param vault The parsed Aegis vault.
+ * @param requestPassword The callback used to ask the user for the password
+ * of an encrypted vault.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processAegisVault(
+  vault: AegisVault,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  const db =
+    typeof vault.db === "string" || vault.header.slots
+      ? await decryptAegisDatabase(vault, requestPassword)
+      : vault.db;
+  return processAegisDatabase(db);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { processJson } from "./jsonProcessor";
+import { processAndOtpEncryptedBackup } from "./andOtpProcessor";
+import { readTestData } from "../../tests/testHelpers";
+
+const mockAndOtpBackup = `
+[
+  {
+    "secret": "JBSWY3DPEHPK3PXP",
+    "issuer": "TestService",
+    "label": "test@example.com",
+    "digits": 8,
+    "type": "TOTP",
+    "algorithm": "SHA256",
+    "thumbnail": "Default",
+    "last_used": 1700000000000,
+    "used_frequency": 3,
+    "period": 45,
+    "tags": ["work"]
+  },
+  {
+    "secret": "MFRGGZDFMZTWQ2LK",
+    "issuer": "Steam",
+    "label": "gamer",
+    "digits": 5,
+    "type": "STEAM",
+    "algorithm": "SHA1",
+    "period": 30,
+    "tags": []
+  }
+]
+`;
+
+describe("andOTP Backup Import", () => {
+  it("should correctly parse a plaintext andOTP backup", async () => {
+    const otpParameters = await processJson(mockAndOtpBackup);
+
+    expect(otpParameters).toHaveLength(2);
+    const [otp, steam] = otpParameters;
+    expect(otp.name).toBe("test@example.com");
+    expect(otp.issuer).toBe("TestService");
+    expect(otp.algorithm).toBe(2); // SHA256
+    expect(otp.digits).toBe(2); // 8 digits
+    expect(otp.period).toBe(45);
+    expect(encode(otp.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    expect(steam.name).toBe("gamer");
+    expect(steam.type).toBe(3); // Steam
+  });
+
+  it("should decrypt a password-protected andOTP backup", async () => {
+    const fileBytes = readTestData("otp_accounts.json.aes");
+    const requestPassword = vi
+      .fn()
+      .mockResolvedValueOnce("wrong")
+      .mockResolvedValueOnce("test");
+    const otpParameters = await processAndOtpEncryptedBackup(
+      fileBytes,
+      requestPassword
+    );
+
+    expect(requestPassword).toHaveBeenCalledTimes(2);
+    expect(otpParameters).toHaveLength(2);
+    expect(otpParameters[0].name).toBe("test@example.com");
+    expect(otpParameters[1].type).toBe(1); // HOTP
+    expect(otpParameters[1].counter).toBe(11);
+  });
+
+  it("should reject a truncated encrypted backup", async () => {
+    await expect(
+      processAndOtpEncryptedBackup(new Uint8Array(10), vi.fn())
+    ).rejects.toThrow("Invalid andOTP backup: the file is too short.");
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * This module handles importing backups from the (now discontinued) andOTP
+ * app. It supports plaintext `otp_accounts.json` backups and the newer
+ * password-protected `otp_accounts.json.aes` format.
+ */
+import { AndOtpEntry, MigrationOtpParameter, PasswordProvider } from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { aesGcmDecrypt, decryptWithPassword, pbkdf2 } from "./encryption";
+import { logger } from "./logger";
+
+/**
+ * The layout of the header of an encrypted andOTP backup. The header is
+ * followed by the AES-GCM ciphertext (including its tag).
+ */
+const ANDOTP_ENCRYPTED_LAYOUT = {
+  ITERATIONS_LENGTH: 4, // Big-endian 32-bit PBKDF2 iteration count
+  SALT_LENGTH: 12,
+  IV_LENGTH: 12,
+  KEY_LENGTH: 32,
+};
+
+/**
+ * Type guard to check if the parsed JSON is an andOTP backup.
+ * @param data The parsed JSON data.
+ * @returns True if the data is a non-empty array of andOTP entries.
+ */
+export function isAndOtpBackup(data: unknown): data is AndOtpEntry[] {
+  return (
+    Array.isArray(data) &&
+    data.length > 0 &&
+    typeof data[0] === "object" &&
+    data[0] !== null &&
+    "secret" in data[0] &&
+    "label" in data[0] &&
+    "type" in data[0]
+  );
+}
+
+/**
+ * Converts a single andOTP entry into the raw account format.
+ * @param entry The andOTP entry.
+ * @returns A raw account, or null if the entry type is not supported.
+ */
+function mapAndOtpEntry(entry: AndOtpEntry): RawOtpAccount | null {
+  const type = entry.type.toLowerCase();
+  if (type !== "totp" && type !== "hotp" && type !== "steam") {
+    return null;
+  }
+
+  return {
+    name: entry.label,
+    issuer: entry.issuer || "",
+    secret: entry.secret,
+    algorithm: entry.algorithm || "SHA1",
+    digits: entry.digits,
+    type: type,
+    counter: type === "hotp" ? entry.counter : undefined,
+    period: type === "totp" ? entry.period : undefined,
+  };
+}
+
+/**
+ * Processes the entries of a plaintext andOTP backup.
+ * @param entries The andOTP entries.
+ * @returns An array of OTP parameters.
+ */
+export function processAndOtpBackup(
+  entries: AndOtpEntry[]
+): MigrationOtpParameter[] {
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const entry of entries) {
+    const rawAccount = mapAndOtpEntry(entry);
+    if (!rawAccount) {
+      logger.warn(
+        `Skipping unsupported andOTP entry type "${entry.type}": ${entry.label}`
+      );
+      continue;
+    }
+    otpParameters.push(mapToMigrationOtpParameter(rawAccount));
+  }
+  return otpParameters;
+}
+
+/**
+ * Decrypts and processes a password-protected andOTP backup
+ * (`otp_accounts.json.aes`).
+ * @param fileBytes The raw contents of the backup file.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processAndOtpEncryptedBackup(
+  fileBytes: Uint8Array,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  const { ITERATIONS_LENGTH, SALT_LENGTH, IV_LENGTH, KEY_LENGTH } =
+    ANDOTP_ENCRYPTED_LAYOUT;
+  const headerLength = ITERATIONS_LENGTH + SALT_LENGTH + IV_LENGTH;
+  if (fileBytes.length <= headerLength) {
+    throw new Error("Invalid andOTP backup: the file is too short.");
+  }
+
+  const iterations = new DataView(
+    fileBytes.buffer,
+    fileBytes.byteOffset,
+    ITERATIONS_LENGTH
+  ).getUint32(0, false);
+  const salt = fileBytes.slice(
+    ITERATIONS_LENGTH,
+    ITERATIONS_LENGTH + SALT_LENGTH
+  );
+  const iv = fileBytes.slice(ITERATIONS_LENGTH + SALT_LENGTH, headerLength);
+  const ciphertext = fileBytes.slice(headerLength);
+
+  const entries = await decryptWithPassword(
+    requestPassword,
+    "Enter the password for this andOTP backup.",
+    async (password) => {
+      const key = await pbkdf2(password, salt, iterations, "SHA-1", KEY_LENGTH);
+      const decrypted = await aesGcmDecrypt(key, iv, ciphertext);
+      if (!decrypted) return null;
+      return JSON.parse(new TextDecoder().decode(decrypted)) as AndOtpEntry[];
+    }
+  );
+
+  if (!Array.isArray(entries)) {
+    throw new Error("Invalid andOTP backup: expected an array of accounts.");
+  }
+  return processAndOtpBackup(entries);
+}
@@ -0,0 +1,70 @@
+/**
+ * This module handles exporting OTP secrets as a CSV file in the layout
+ * used by Apple's Passwords app. Each account becomes an item whose `OTPAuth`
+ * column holds the account's otpauth URL.
+ */
+import { MigrationOtpParameter } from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { convertToOtpData } from "./otpFormatter";
+import { toCsv } from "./csvExporter";
+import { triggerDownload } from "./download";
+import { assertExportable } from "./exportCompatibility";
+
+/** The columns of an Apple Passwords CSV file. */
+const APPLE_PASSWORDS_CSV_HEADERS = [
+  "Title",
+  "URL",
+  "Username",
+  "Password",
+  "Notes",
+  "OTPAuth",
+];
+
+/**
+ * Builds an Apple Passwords CSV file from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The CSV content.
+ */
+export function exportToApplePasswordsCsv(
+  otps: MigrationOtpParameter[]
+): string {
+  // The app ignores the steam encoder and would show numeric codes instead.
+  assertExportable(otps, {
+    appName: "Apple Passwords",
+    supportsSteam: false,
+    supportsCustomPeriods: true,
+  });
+
+  const rows = otps.map((otp) => {
+    const otpData = convertToOtpData(otp);
+    return [
+      otp.issuer || otpData.name,
+      "", // URL
+      otpData.name,
+      "", // Password
+      "", // Notes
+      otpData.url,
+    ];
+  });
+  return toCsv(APPLE_PASSWORDS_CSV_HEADERS, rows);
+}
+
+/**
+ * Exports the given OTPs as a CSV file that can be imported into Apple's
+ * Passwords app.
+ * @param otpsToExport The OTP parameters to export.
+ */
+export function downloadAsApplePasswordsCsv(
+  otpsToExport: MigrationOtpParameter[]
+): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  triggerDownload(
+    "apple_passwords_import.csv",
+    exportToApplePasswordsCsv(otpsToExport),
+    "text/csv;charset=utf-8;"
+  );
+}
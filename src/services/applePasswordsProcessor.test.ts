@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { encode } from "thirty-two";
+import { MigrationOtpParameter } from "../types";
+import { processCsv } from "./csvProcessor";
+import { exportToApplePasswordsCsv } from "./applePasswordsExporter";
+import { readTestText } from "../../tests/testHelpers";
+
+describe("Apple Passwords Import", () => {
+  it("should correctly parse a CSV export", async () => {
+    const fileContent = readTestText("apple_passwords_export.csv");
+    const otpParameters = await processCsv(fileContent);
+
+    // The item without an OTPAuth value is ignored.
+    expect(otpParameters).toHaveLength(2);
+    const [github, example] = otpParameters;
+
+    expect(github.name).toBe("octocat");
+    expect(github.issuer).toBe("GitHub");
+    expect(encode(github.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    // A URI without an issuer takes the item title as its issuer.
+    expect(example.name).toBe("bob@example.com");
+    expect(example.issuer).toBe("example.com");
+    expect(example.algorithm).toBe(2); // SHA256
+    expect(example.digits).toBe(2); // 8 digits
+    expect(example.period).toBe(60);
+  });
+});
+
+describe("Apple Passwords Export", () => {
+  const mockOtps: MigrationOtpParameter[] = [
+    {
+      secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+      name: "test@example.com",
+      issuer: "Test Issuer",
+      algorithm: 1, // SHA1
+      digits: 1, // 6 digits
+      type: 2, // TOTP
+      counter: 0,
+    },
+    {
+      secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+      name: "counter-user",
+      issuer: "HOTP Issuer",
+      algorithm: 3, // SHA512
+      digits: 2, // 8 digits
+      type: 1, // HOTP
+      counter: 7,
+    },
+  ];
+
+  it("should export an Apple Passwords CSV that can be imported again", async () => {
+    const csv = exportToApplePasswordsCsv(mockOtps);
+    const lines = csv.split("\n");
+    expect(lines[0]).toBe("Title,URL,Username,Password,Notes,OTPAuth");
+    expect(lines[1]).toMatch(/^Test Issuer,,test@example.com,,,otpauth:/);
+
+    const imported = await processCsv(csv);
+    expect(imported).toHaveLength(2);
+    expect(imported[0]).toEqual(expect.objectContaining(mockOtps[0]));
+    expect(imported[1]).toEqual(
+      expect.objectContaining({ ...mockOtps[1], counter: expect.anything() })
+    );
+    expect(Number(imported[1].counter)).toBe(7);
+  });
+});
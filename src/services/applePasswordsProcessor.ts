@@ -0,0 +1,53 @@
+/**
+ * This module handles importing CSV exports from Apple's Passwords app
+ * (iOS 18 and macOS Sequoia). Passwords keeps the verification code setup of
+ * each item as an `otpauth://` URI in its `OTPAuth` column.
+ */
+import { MigrationOtpParameter } from "../types";
+import { parseOtpFieldValue } from "./onePasswordProcessor";
+import { logger } from "./logger";
+
+/**
+ * Type guard to check if the header row of a CSV file is from an Apple
+ * Passwords export.
+ * @param headers The column names.
+ * @returns True if the CSV has Apple Passwords' Title and OTPAuth columns.
+ */
+export function isApplePasswordsCsv(headers: string[]): boolean {
+  return headers.includes("Title") && headers.includes("OTPAuth");
+}
+
+/**
+ * Processes the rows of an Apple Passwords CSV export. Items without
+ * verification codes are ignored.
+ * @param headers The column names.
+ * @param rows The data rows.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processApplePasswordsCsv(
+  headers: string[],
+  rows: string[][]
+): Promise<MigrationOtpParameter[]> {
+  const column = (row: string[], name: string) =>
+    row[headers.indexOf(name)]?.trim() || "";
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const row of rows) {
+    const otpAuth = column(row, "OTPAuth");
+    if (!otpAuth) continue;
+    const title = column(row, "Title");
+    const username = column(row, "Username") || title;
+    try {
+      const otps = await parseOtpFieldValue(otpAuth, title, username);
+      otpParameters.push(
+        ...otps.map((otp) => ({ ...otp, name: otp.name || username }))
+      );
+    } catch (error: any) {
+      logger.warn(
+        `Skipping invalid OTPAuth in Apple Passwords row: ${title}`,
+        error
+      );
+    }
+  }
+  return otpParameters;
+}
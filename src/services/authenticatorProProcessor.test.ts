@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { MigrationOtpParameter } from "../types";
+import { processAuthenticatorProFile } from "./authenticatorProProcessor";
+import { processJson } from "./jsonProcessor";
+import { readTestData } from "../../tests/testHelpers";
+
+/**
+ * Checks the OTPs of the test backups, which all hold the same accounts. The
+ * mOTP account cannot be represented and must be skipped.
+ */
+function expectTestBackupOtps(otpParameters: MigrationOtpParameter[]) {
+  expect(otpParameters).toHaveLength(4);
+  const [github, counter, stratum, steam] = otpParameters;
+
+  expect(github.name).toBe("octocat");
+  expect(github.issuer).toBe("GitHub");
+  expect(github.type).toBe(2); // TOTP
+  expect(encode(github.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+  expect(counter.name).toBe("carol");
+  expect(counter.type).toBe(1); // HOTP
+  expect(counter.counter).toBe(3);
+
+  // Accounts without a username are named after their issuer.
+  expect(stratum.name).toBe("Stratum");
+  expect(stratum.algorithm).toBe(3); // SHA512
+  expect(stratum.digits).toBe(2); // 8 digits
+  expect(stratum.period).toBe(60);
+
+  expect(steam.name).toBe("gabe");
+  expect(steam.type).toBe(3); // Steam
+}
+
+describe("Authenticator Pro Import", () => {
+  it("should read a plaintext backup", async () => {
+    const otpParameters = await processAuthenticatorProFile(
+      readTestData("authenticatorpro_backup.authpro")
+    );
+    expectTestBackupOtps(otpParameters);
+  });
+
+  it("should detect a plaintext backup saved as JSON", async () => {
+    const json = new TextDecoder().decode(
+      readTestData("authenticatorpro_backup.authpro")
+    );
+    expectTestBackupOtps(await processJson(json));
+  });
+
+  it("should decrypt an Argon2id/AES-GCM backup", async () => {
+    const requestPassword = vi.fn().mockResolvedValue("test");
+    const otpParameters = await processAuthenticatorProFile(
+      readTestData("authenticatorpro_encrypted.authpro"),
+      requestPassword
+    );
+
+    expect(requestPassword).toHaveBeenCalledTimes(1);
+    expectTestBackupOtps(otpParameters);
+  });
+
+  it("should decrypt a legacy PBKDF2/AES-CBC backup", async () => {
+    const requestPassword = vi
+      .fn()
+      .mockResolvedValueOnce("wrong")
+      .mockResolvedValueOnce("test");
+    const otpParameters = await processAuthenticatorProFile(
+      readTestData("authenticatorpro_legacy.authpro"),
+      requestPassword
+    );
+
+    expect(requestPassword).toHaveBeenCalledTimes(2);
+    expect(requestPassword.mock.calls[1][0]).toMatch(/^Incorrect password/);
+    expectTestBackupOtps(otpParameters);
+  });
+});
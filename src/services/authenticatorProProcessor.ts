@@ -0,0 +1,242 @@
+/**
+ * This module handles importing backups from Authenticator Pro (also known as
+ * Stratum). Backups (`.authpro`) are either plain JSON or encrypted:
+ *
+ * - Current encrypted backups start with "AUTHENTICATORPRO" and use Argon2id
+ *   key derivation with AES-256-GCM.
+ * - Legacy encrypted backups start with "AuthenticatorPro" and use PBKDF2 key
+ *   derivation with AES-256-CBC.
+ */
+import { argon2idAsync } from "@noble/hashes/argon2";
+import {
+  AuthenticatorProAuthenticator,
+  AuthenticatorProBackup,
+  MigrationOtpParameter,
+  PasswordProvider,
+} from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import {
+  aesCbcDecrypt,
+  aesGcmDecrypt,
+  decryptWithPassword,
+  pbkdf2,
+} from "./encryption";
+import { logger } from "./logger";
+
+/** The layout and key derivation of current encrypted backups. */
+const AUTHPRO_ENCRYPTED = {
+  HEADER: "AUTHENTICATORPRO",
+  SALT_LENGTH: 16,
+  IV_LENGTH: 12,
+  ARGON2_ITERATIONS: 3,
+  ARGON2_MEMORY_KIB: 64 * 1024,
+  ARGON2_PARALLELISM: 4,
+  KEY_LENGTH: 32,
+};
+
+/** The layout and key derivation of legacy encrypted backups. */
+const AUTHPRO_LEGACY_ENCRYPTED = {
+  HEADER: "AuthenticatorPro",
+  SALT_LENGTH: 20,
+  IV_LENGTH: 16,
+  PBKDF2_ITERATIONS: 64000,
+  KEY_LENGTH: 32,
+};
+
+/** The OTP types used by Authenticator Pro. */
+const AUTHPRO_TYPE_MAP: { [type: number]: string } = {
+  1: "hotp",
+  2: "totp",
+  3: "motp",
+  4: "steam",
+  5: "yandex",
+};
+
+/** The hash algorithms used by Authenticator Pro. */
+const AUTHPRO_ALGORITHM_MAP: { [algorithm: number]: string } = {
+  0: "SHA1",
+  1: "SHA256",
+  2: "SHA512",
+};
+
+/**
+ * Type guard to check if the parsed JSON is an Authenticator Pro backup.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like an Authenticator Pro backup.
+ */
+export function isAuthenticatorProBackup(
+  data: unknown
+): data is AuthenticatorProBackup {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    Array.isArray((data as AuthenticatorProBackup).Authenticators)
+  );
+}
+
+/**
+ * Converts a single Authenticator Pro account into the raw account format.
+ * @param auth The Authenticator Pro account.
+ * @returns A raw account, or null if the account type is not supported.
+ */
+function mapAuthenticatorProAccount(
+  auth: AuthenticatorProAuthenticator
+): RawOtpAccount | null {
+  const type = AUTHPRO_TYPE_MAP[auth.Type];
+  if (type !== "totp" && type !== "hotp" && type !== "steam") {
+    return null;
+  }
+
+  return {
+    name: auth.Username || auth.Issuer,
+    issuer: auth.Issuer || "",
+    secret: auth.Secret.replace(/\s/g, "").toUpperCase(),
+    algorithm: AUTHPRO_ALGORITHM_MAP[auth.Algorithm] || "SHA1",
+    digits: auth.Digits,
+    type: type,
+    counter: type === "hotp" ? auth.Counter : undefined,
+    period: type === "totp" ? auth.Period : undefined,
+  };
+}
+
+/**
+ * Processes the accounts of a plaintext Authenticator Pro backup.
+ * @param backup The parsed Authenticator Pro backup.
+ * @returns An array of OTP parameters.
+ */
+export function processAuthenticatorProBackup(
+  backup: AuthenticatorProBackup
+): MigrationOtpParameter[] {
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const auth of backup.Authenticators) {
+    const rawAccount = mapAuthenticatorProAccount(auth);
+    if (!rawAccount) {
+      const type = AUTHPRO_TYPE_MAP[auth.Type] || auth.Type;
+      logger.warn(
+        `Skipping unsupported Authenticator Pro account type "${type}": ${auth.Issuer}`
+      );
+      continue;
+    }
+    try {
+      otpParameters.push(mapToMigrationOtpParameter(rawAccount));
+    } catch (error: any) {
+      logger.warn(
+        `Skipping invalid Authenticator Pro account: ${auth.Issuer}`,
+        error
+      );
+    }
+  }
+  return otpParameters;
+}
+
+/**
+ * Checks whether a file starts with the given ASCII header.
+ * @param fileBytes The contents of the file.
+ * @param header The expected header.
+ * @returns True if the file starts with the header.
+ */
+function hasHeader(fileBytes: Uint8Array, header: string): boolean {
+  return (
+    new TextDecoder().decode(fileBytes.subarray(0, header.length)) === header
+  );
+}
+
+/**
+ * Decrypts a current (Argon2id and AES-GCM) encrypted backup.
+ * @param fileBytes The contents of the backup file.
+ * @param password The backup password.
+ * @returns A promise that resolves with the decrypted JSON, or null if the
+ * password is incorrect.
+ */
+async function decryptAuthenticatorProBackup(
+  fileBytes: Uint8Array,
+  password: string
+): Promise<Uint8Array | null> {
+  const { HEADER, SALT_LENGTH, IV_LENGTH } = AUTHPRO_ENCRYPTED;
+  const saltStart = HEADER.length;
+  const ivStart = saltStart + SALT_LENGTH;
+  const dataStart = ivStart + IV_LENGTH;
+
+  const key = await argon2idAsync(
+    password,
+    fileBytes.slice(saltStart, ivStart),
+    {
+      t: AUTHPRO_ENCRYPTED.ARGON2_ITERATIONS,
+      m: AUTHPRO_ENCRYPTED.ARGON2_MEMORY_KIB,
+      p: AUTHPRO_ENCRYPTED.ARGON2_PARALLELISM,
+      dkLen: AUTHPRO_ENCRYPTED.KEY_LENGTH,
+    }
+  );
+  return aesGcmDecrypt(
+    key,
+    fileBytes.slice(ivStart, dataStart),
+    fileBytes.slice(dataStart)
+  );
+}
+
+/**
+ * Decrypts a legacy (PBKDF2 and AES-CBC) encrypted backup.
+ * @param fileBytes The contents of the backup file.
+ * @param password The backup password.
+ * @returns A promise that resolves with the decrypted JSON, or null if the
+ * password is incorrect.
+ */
+async function decryptLegacyAuthenticatorProBackup(
+  fileBytes: Uint8Array,
+  password: string
+): Promise<Uint8Array | null> {
+  const { HEADER, SALT_LENGTH, IV_LENGTH } = AUTHPRO_LEGACY_ENCRYPTED;
+  const saltStart = HEADER.length;
+  const ivStart = saltStart + SALT_LENGTH;
+  const dataStart = ivStart + IV_LENGTH;
+
+  const key = await pbkdf2(
+    password,
+    fileBytes.slice(saltStart, ivStart),
+    AUTHPRO_LEGACY_ENCRYPTED.PBKDF2_ITERATIONS,
+    "SHA-1",
+    AUTHPRO_LEGACY_ENCRYPTED.KEY_LENGTH
+  );
+  const decrypted = await aesCbcDecrypt(
+    key,
+    fileBytes.slice(ivStart, dataStart),
+    fileBytes.slice(dataStart)
+  );
+  // A wrong key usually fails the padding check, but may produce garbage
+  // with valid padding.
+  return decrypted && decrypted[0] === "{".charCodeAt(0) ? decrypted : null;
+}
+
+/**
+ * Processes an Authenticator Pro backup file, decrypting it first if needed.
+ * @param fileBytes The contents of the `.authpro` file.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processAuthenticatorProFile(
+  fileBytes: Uint8Array,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  let json: Uint8Array = fileBytes;
+  if (hasHeader(fileBytes, AUTHPRO_ENCRYPTED.HEADER)) {
+    json = await decryptWithPassword(
+      requestPassword,
+      "Enter the password for this Authenticator Pro backup.",
+      (password) => decryptAuthenticatorProBackup(fileBytes, password)
+    );
+  } else if (hasHeader(fileBytes, AUTHPRO_LEGACY_ENCRYPTED.HEADER)) {
+    json = await decryptWithPassword(
+      requestPassword,
+      "Enter the password for this Authenticator Pro backup.",
+      (password) => decryptLegacyAuthenticatorProBackup(fileBytes, password)
+    );
+  }
+
+  const backup: unknown = JSON.parse(new TextDecoder().decode(json));
+  if (!isAuthenticatorProBackup(backup)) {
+    throw new Error(
+      "Invalid Authenticator Pro backup: expected a list of authenticators."
+    );
+  }
+  return processAuthenticatorProBackup(backup);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import protobuf from "protobufjs";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { uint8ArrayToBase64 } from "./protobufProcessor";
+import { getOtpUniqueKey } from "./dataHandler";
+import { describeBatchProgress, getMissingBatchIndices } from "./batchProgress";
+
+/**
+ * Builds a Google Authenticator migration URL holding one QR code of a batch.
+ */
+async function createBatchUrl(
+  batchIndex: number,
+  batchSize: number,
+  issuer = "TestIssuer"
+) {
+  const root = await protobuf.load("otp_migration.proto");
+  const MigrationPayload = root.lookupType("MigrationPayload");
+  const message = MigrationPayload.create({
+    otpParameters: [
+      {
+        secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173]),
+        name: `account-${batchIndex}`,
+        issuer,
+        algorithm: 1,
+        digits: 1,
+        type: 2,
+      },
+    ],
+    version: 1,
+    batchSize,
+    batchIndex,
+    batchId: -1289287030, // 0xB3270A8A as a signed 32-bit integer
+  });
+  const data = uint8ArrayToBase64(MigrationPayload.encode(message).finish());
+  return `otpauth-migration://offline?data=${encodeURIComponent(data)}`;
+}
+
+describe("Multi-QR Export Batches", () => {
+  it("should keep the batch metadata of a Google Authenticator export", async () => {
+    const [otp] = await getOtpParametersFromUrl(await createBatchUrl(1, 3));
+    expect(otp.name).toBe("account-1");
+    expect(otp.batch).toEqual({ id: "B3270A8A", index: 1, size: 3 });
+  });
+
+  it("should not record a batch for single-QR exports", async () => {
+    const [otp] = await getOtpParametersFromUrl(await createBatchUrl(0, 1));
+    expect(otp.batch).toBeUndefined();
+  });
+
+  it("should keep unset fields of batch accounts for duplicate detection", async () => {
+    const [batchOtp] = await getOtpParametersFromUrl(
+      await createBatchUrl(1, 3, "")
+    );
+    const [singleOtp] = await getOtpParametersFromUrl(
+      await createBatchUrl(1, 1, "")
+    );
+    expect(batchOtp.issuer).toBe("");
+    expect(batchOtp.counter).toBe(0);
+    expect(getOtpUniqueKey(batchOtp)).toBe(getOtpUniqueKey(singleOtp));
+  });
+
+  it("should describe the scanned and missing QR codes", () => {
+    const progress = { size: 5, scannedIndices: new Set([3, 1]) };
+    expect(getMissingBatchIndices(progress)).toEqual([0, 2, 4]);
+    expect(describeBatchProgress("3F2A0B1C", progress)).toBe(
+      "Export 3F2A…: QR 2 and 4 of 5 scanned, 1, 3 and 5 missing"
+    );
+    expect(
+      describeBatchProgress("3F2A0B1C", {
+        size: 2,
+        scannedIndices: new Set([0, 1]),
+      })
+    ).toBe("Export 3F2A…: all 2 QR codes scanned");
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * This module tracks the progress of exports that are split across several
+ * QR codes, such as large Google Authenticator and LastPass Authenticator
+ * exports. Each QR code of such an export carries the shared batch ID, its
+ * own index and the batch size, so the app can tell the user which QR codes
+ * they still have to scan.
+ */
+import { BatchProgress, MigrationOtpParameter } from "../types";
+import { addUploadLog } from "../ui/notifications";
+import { getState, setState } from "../state/store";
+
+/** The number of batch ID characters shown to the user. */
+const SHORT_BATCH_ID_LENGTH = 4;
+
+/**
+ * Joins a list of items into an English phrase, e.g. "1, 3 and 5".
+ * @param items The items to join.
+ * @returns The joined phrase.
+ */
+function formatList(items: (string | number)[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/**
+ * Gets the QR codes of a batch that have not been scanned yet.
+ * @param progress The progress of the batch.
+ * @returns The zero-based indices of the missing QR codes, in order.
+ */
+export function getMissingBatchIndices(progress: BatchProgress): number[] {
+  return Array.from({ length: progress.size }, (_, index) => index).filter(
+    (index) => !progress.scannedIndices.has(index)
+  );
+}
+
+/**
+ * Describes the progress of a batch, e.g. "Export 3F2A…: QR 2 and 4 of 5
+ * scanned, 1, 3 and 5 missing". QR codes are numbered from 1.
+ * @param batchId The ID of the batch.
+ * @param progress The progress of the batch.
+ * @returns The description.
+ */
+export function describeBatchProgress(
+  batchId: string,
+  progress: BatchProgress
+): string {
+  const label = `Export ${batchId.substring(0, SHORT_BATCH_ID_LENGTH)}…`;
+  const missing = getMissingBatchIndices(progress);
+  if (missing.length === 0) {
+    return `${label}: all ${progress.size} QR codes scanned`;
+  }
+
+  const scanned = [...progress.scannedIndices].sort((a, b) => a - b);
+  return `${label}: QR ${formatList(scanned.map((i) => i + 1))} of ${
+    progress.size
+  } scanned, ${formatList(missing.map((i) => i + 1))} missing`;
+}
+
+/**
+ * Records the QR codes that the given OTPs were scanned from, and logs the
+ * progress of each batch they belong to. Duplicates count as scanned too, as
+ * the user has scanned their QR code.
+ * @param otpParameters The OTP parameters extracted from a source.
+ * @param sourceName A descriptive name for the source (e.g., a filename).
+ */
+export function recordBatchProgress(
+  otpParameters: MigrationOtpParameter[],
+  sourceName: string
+): void {
+  const batches = new Map(getState().batches);
+  const updatedIds = new Set<string>();
+
+  for (const { batch } of otpParameters) {
+    if (!batch) continue;
+    const progress = batches.get(batch.id);
+    batches.set(batch.id, {
+      size: batch.size,
+      scannedIndices: new Set(progress?.scannedIndices).add(batch.index),
+    });
+    updatedIds.add(batch.id);
+  }
+  if (updatedIds.size === 0) return;
+
+  setState(() => ({ batches }));
+  for (const id of updatedIds) {
+    const progress = batches.get(id)!;
+    const isComplete = getMissingBatchIndices(progress).length === 0;
+    addUploadLog(
+      sourceName,
+      isComplete ? "success" : "warning",
+      describeBatchProgress(id, progress)
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * This module handles exporting OTP secrets in a format that Bitwarden can
+ * import ("Bitwarden (json)" or "Bitwarden (csv)"). Each account becomes a
+ * login item whose `login.totp` field holds the account's otpauth URL, or the
+ * `steam://` secret Bitwarden uses for Steam Guard accounts.
+ */
+import {
+  BitwardenExport,
+  BitwardenItem,
+  MigrationOtpParameter,
+} from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { OtpType } from "../ui/otp";
+import { convertToOtpData } from "./otpFormatter";
+import { STEAM_URI_PREFIX } from "./steamProcessor";
+import { toCsv } from "./csvExporter";
+import { generateUUID } from "./uuid";
+import { triggerDownload } from "./download";
+
+/** The Bitwarden item type for logins, the only type that can hold a TOTP. */
+const BITWARDEN_LOGIN_TYPE = 1;
+
+/** The columns of Bitwarden's individual vault CSV format. */
+const BITWARDEN_CSV_HEADERS = [
+  "folder",
+  "favorite",
+  "type",
+  "name",
+  "notes",
+  "fields",
+  "reprompt",
+  "login_uri",
+  "login_username",
+  "login_password",
+  "login_totp",
+];
+
+/**
+ * Converts an OTP parameter into a Bitwarden login item.
+ * @param otp The OTP parameter to convert.
+ * @returns The Bitwarden item.
+ */
+function mapToBitwardenItem(otp: MigrationOtpParameter): BitwardenItem {
+  const otpData = convertToOtpData(otp);
+  return {
+    id: generateUUID(),
+    organizationId: null,
+    folderId: null,
+    type: BITWARDEN_LOGIN_TYPE,
+    reprompt: 0,
+    name: otp.issuer || otp.name,
+    notes: null,
+    favorite: false,
+    login: {
+      uris: [],
+      username: otp.name,
+      password: null,
+      totp:
+        otp.type === OtpType.STEAM
+          ? `${STEAM_URI_PREFIX}${otpData.secret}`
+          : otpData.url,
+    },
+    collectionIds: null,
+  };
+}
+
+/**
+ * Builds an unencrypted Bitwarden JSON export from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The Bitwarden export object.
+ */
+export function exportToBitwardenJson(
+  otps: MigrationOtpParameter[]
+): BitwardenExport {
+  return {
+    encrypted: false,
+    folders: [],
+    items: otps.map(mapToBitwardenItem),
+  };
+}
+
+/**
+ * Builds a Bitwarden CSV export from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The CSV content.
+ */
+export function exportToBitwardenCsv(otps: MigrationOtpParameter[]): string {
+  const rows = otps.map(mapToBitwardenItem).map((item) => [
+    "", // folder
+    "", // favorite
+    "login",
+    item.name,
+    "", // notes
+    "", // fields
+    item.reprompt,
+    "", // login_uri
+    item.login!.username,
+    "", // login_password
+    item.login!.totp,
+  ]);
+  return toCsv(BITWARDEN_CSV_HEADERS, rows);
+}
+
+/**
+ * Exports the given OTPs as a file that can be imported into Bitwarden.
+ * @param otpsToExport The OTP parameters to export.
+ * @param format Whether to save a JSON or a CSV file.
+ */
+export function downloadAsBitwarden(
+  otpsToExport: MigrationOtpParameter[],
+  format: "json" | "csv"
+): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  if (format === "csv") {
+    triggerDownload(
+      "bitwarden_export.csv",
+      exportToBitwardenCsv(otpsToExport),
+      "text/csv;charset=utf-8;"
+    );
+    return;
+  }
+
+  const jsonString = JSON.stringify(
+    exportToBitwardenJson(otpsToExport),
+    null,
+    2
+  );
+  triggerDownload(
+    "bitwarden_export.json",
+    jsonString,
+    "application/json;charset=utf-8;"
+  );
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { MigrationOtpParameter } from "../types";
+import { processJson } from "./jsonProcessor";
+import {
+  exportToBitwardenCsv,
+  exportToBitwardenJson,
+} from "./bitwardenExporter";
+import { readTestText } from "../../tests/testHelpers";
+
+const mockBitwardenExport = JSON.stringify({
+  encrypted: false,
+  folders: [{ id: "f1", name: "Work" }],
+  items: [
+    {
+      id: "1",
+      folderId: "f1",
+      type: 1,
+      name: "GitHub",
+      favorite: false,
+      login: {
+        uris: [{ match: null, uri: "https://github.com/login" }],
+        username: "octocat",
+        password: "hunter2",
+        totp: "otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP&issuer=GitHub&algorithm=SHA256&digits=8&period=60",
+      },
+    },
+    {
+      id: "2",
+      folderId: null,
+      type: 1,
+      name: "",
+      login: {
+        uris: [{ match: null, uri: "accounts.example.com" }],
+        username: "alice",
+        password: "secret",
+        totp: "jbsw y3dp ehpk 3pxp",
+      },
+    },
+    {
+      id: "3",
+      folderId: null,
+      type: 1,
+      name: "Steam",
+      login: { uris: [], username: "gamer", totp: "steam://JBSWY3DPEHPK3PXP" },
+    },
+    {
+      id: "4",
+      folderId: null,
+      type: 2,
+      name: "A secure note",
+      notes: "Not a login.",
+      login: null,
+    },
+    {
+      id: "5",
+      folderId: null,
+      type: 1,
+      name: "Typo",
+      login: { uris: [], username: "bob", totp: "not a secret!" },
+    },
+  ],
+});
+
+describe("Bitwarden Export Import", () => {
+  it("should correctly parse a Bitwarden JSON export", async () => {
+    const otpParameters = await processJson(mockBitwardenExport);
+
+    // The secure note and the invalid secret should be skipped.
+    expect(otpParameters).toHaveLength(3);
+
+    const [fromUri, fromSecret, steam] = otpParameters;
+    expect(fromUri.name).toBe("octocat");
+    expect(fromUri.issuer).toBe("GitHub");
+    expect(fromUri.algorithm).toBe(2); // SHA256
+    expect(fromUri.digits).toBe(2); // 8 digits
+    expect(fromUri.period).toBe(60);
+    expect(encode(fromUri.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    // A bare secret falls back to the URI host when the item has no name.
+    expect(fromSecret.name).toBe("alice");
+    expect(fromSecret.issuer).toBe("accounts.example.com");
+    expect(fromSecret.type).toBe(2); // TOTP
+    expect(fromSecret.algorithm).toBe(1); // SHA1
+    expect(fromSecret.digits).toBe(1); // 6 digits
+    expect(encode(fromSecret.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    expect(steam.name).toBe("gamer");
+    expect(steam.issuer).toBe("Steam");
+    expect(steam.type).toBe(3); // Steam
+    expect(encode(steam.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+  });
+
+  it.each([
+    ["PBKDF2", "bitwarden_encrypted_pbkdf2.json"],
+    ["Argon2id", "bitwarden_encrypted_argon2id.json"],
+  ])(
+    "should decrypt a password-protected export using %s",
+    async (_kdf, fileName) => {
+      const requestPassword = vi
+        .fn()
+        .mockResolvedValueOnce("wrong")
+        .mockResolvedValueOnce("test");
+      const otpParameters = await processJson(
+        readTestText(fileName),
+        requestPassword
+      );
+
+      expect(requestPassword).toHaveBeenCalledTimes(2);
+      expect(requestPassword.mock.calls[1][0]).toMatch(/^Incorrect password/);
+      expect(otpParameters).toHaveLength(1);
+      expect(otpParameters[0].name).toBe("octocat");
+      expect(otpParameters[0].issuer).toBe("GitHub");
+      expect(encode(otpParameters[0].secret).toString()).toBe(
+        "JBSWY3DPEHPK3PXP"
+      );
+    }
+  );
+
+  it("should reject an export encrypted with the account key", async () => {
+    const requestPassword = vi.fn();
+    await expect(
+      processJson(
+        readTestText("bitwarden_encrypted_account_key.json"),
+        requestPassword
+      )
+    ).rejects.toThrow(/Password protected/);
+    expect(requestPassword).not.toHaveBeenCalled();
+  });
+});
+
+describe("Bitwarden Export", () => {
+  const otp: MigrationOtpParameter = {
+    secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+    name: "test, account",
+    issuer: "TestIssuer",
+    algorithm: 2, // SHA256
+    digits: 1, // 6 digits
+    type: 2, // TOTP
+    counter: 0,
+    period: 45,
+  };
+
+  it("should export a JSON file that can be imported again", async () => {
+    const exported = exportToBitwardenJson([otp]);
+    expect(exported.items[0].name).toBe("TestIssuer");
+    expect(exported.items[0].login?.username).toBe("test, account");
+
+    const [imported] = await processJson(JSON.stringify(exported));
+    expect(imported.name).toBe("test, account");
+    expect(imported.issuer).toBe("TestIssuer");
+    expect(imported.algorithm).toBe(2); // SHA256
+    expect(imported.period).toBe(45);
+    expect(imported.secret).toEqual(otp.secret);
+  });
+
+  it("should export a CSV file in Bitwarden's column layout", () => {
+    const lines = exportToBitwardenCsv([otp]).split("\n");
+    expect(lines[0]).toBe(
+      "folder,favorite,type,name,notes,fields,reprompt,login_uri,login_username,login_password,login_totp"
+    );
+    expect(lines[1]).toBe(
+      ',,login,TestIssuer,,,0,,"test, account",,otpauth://totp/test%2C%20account?secret=JBSWY3DPEHPK3PXP&issuer=TestIssuer&algorithm=SHA256&period=45'
+    );
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * This module handles importing Bitwarden vault exports
+ * (`bitwarden_export_*.json`). Bitwarden stores the TOTP secret of a login
+ * item in `login.totp`, either as a full `otpauth://` URI or as a bare
+ * Base32 secret that uses the default TOTP settings.
+ *
+ * Password-protected exports are decrypted locally, using the same PBKDF2 or
+ * Argon2id key derivation and AES-CBC + HMAC-SHA256 scheme as Bitwarden.
+ */
+import { argon2idAsync } from "@noble/hashes/argon2";
+import {
+  BitwardenEncryptedExport,
+  BitwardenExport,
+  BitwardenItem,
+  MigrationOtpParameter,
+  PasswordProvider,
+} from "../types";
+import {
+  mapToMigrationOtpParameter,
+  normalizeBase32Secret,
+  RawOtpAccount,
+} from "./otpDataMapper";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { base64ToUint8Array } from "./protobufProcessor";
+import {
+  aesCbcDecrypt,
+  bytesEqual,
+  concatBytes,
+  decryptWithPassword,
+  hmacSha256,
+  pbkdf2,
+  sha256,
+} from "./encryption";
+import { mapSteamUri, STEAM_ISSUER, STEAM_URI_PREFIX } from "./steamProcessor";
+import { logger } from "./logger";
+
+/** The key derivation functions supported by Bitwarden. */
+const BITWARDEN_KDF = {
+  PBKDF2_SHA256: 0,
+  ARGON2ID: 1,
+};
+
+/** The cipher string type for AES-256-CBC with an HMAC-SHA256 MAC. */
+const BITWARDEN_AES_CBC_HMAC_TYPE = 2;
+
+/** The encryption and MAC keys derived from a Bitwarden export password. */
+interface BitwardenKeys {
+  encKey: Uint8Array;
+  macKey: Uint8Array;
+}
+
+/**
+ * Type guard to check if the parsed JSON is a Bitwarden vault export.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like a Bitwarden export.
+ */
+export function isBitwardenExport(data: unknown): data is BitwardenExport {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as BitwardenExport).encrypted === false &&
+    Array.isArray((data as BitwardenExport).items)
+  );
+}
+
+/**
+ * Type guard to check if the parsed JSON is an encrypted Bitwarden export.
+ * This includes exports encrypted with the account key, which have no `data`
+ * and are rejected when processed.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like an encrypted Bitwarden export.
+ */
+export function isBitwardenEncryptedExport(
+  data: unknown
+): data is BitwardenEncryptedExport {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as BitwardenEncryptedExport).encrypted === true &&
+    typeof (data as BitwardenEncryptedExport).encKeyValidation_DO_NOT_EDIT ===
+      "string"
+  );
+}
+
+/**
+ * Gets the host name of the first URI attached to a login item.
+ * @param item The Bitwarden item.
+ * @returns The host name, or an empty string if there is no valid URI.
+ */
+function getFirstUriHost(item: BitwardenItem): string {
+  const uri = item.login?.uris?.find((u) => u.uri)?.uri;
+  if (!uri) return "";
+  try {
+    // Bitwarden allows URIs without a scheme, such as "example.com".
+    return new URL(uri.includes("://") ? uri : `https://${uri}`).hostname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Converts a login item with a bare Base32 secret into the raw account format.
+ * @param item The Bitwarden item.
+ * @param secret The Base32 secret from the item's `login.totp` field.
+ * @returns A raw account using the default TOTP settings.
+ * @throws If the secret is not valid Base32.
+ */
+function mapBitwardenSecret(
+  item: BitwardenItem,
+  secret: string
+): RawOtpAccount {
+  return {
+    name: item.login?.username || item.name,
+    issuer: item.name || getFirstUriHost(item),
+    secret: normalizeBase32Secret(secret),
+    algorithm: "SHA1",
+    digits: 6,
+    type: "totp",
+  };
+}
+
+/**
+ * Processes a single Bitwarden item.
+ * @param item The Bitwarden item.
+ * @returns A promise that resolves with the item's OTP parameters, if any.
+ */
+async function processBitwardenItem(
+  item: BitwardenItem
+): Promise<MigrationOtpParameter[]> {
+  const totp = item.login?.totp?.trim();
+  if (!totp) return [];
+
+  try {
+    if (totp.startsWith("otpauth://")) {
+      return await getOtpParametersFromUrl(totp);
+    }
+    if (totp.toLowerCase().startsWith(STEAM_URI_PREFIX)) {
+      const name = item.login?.username || item.name;
+      const issuer = item.name || STEAM_ISSUER;
+      return [mapToMigrationOtpParameter(mapSteamUri(totp, name, issuer))];
+    }
+    return [mapToMigrationOtpParameter(mapBitwardenSecret(item, totp))];
+  } catch (error: any) {
+    logger.warn(`Skipping invalid TOTP in Bitwarden item: ${item.name}`, error);
+    return [];
+  }
+}
+
+/**
+ * Processes an unencrypted Bitwarden vault export.
+ * @param data The parsed Bitwarden export.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processBitwardenExport(
+  data: BitwardenExport
+): Promise<MigrationOtpParameter[]> {
+  const results = await Promise.all(data.items.map(processBitwardenItem));
+  return results.flat();
+}
+
+// --- Password-Protected Exports ---
+
+/**
+ * Derives the master key of a password-protected export from the password.
+ * @param password The export password.
+ * @param envelope The encrypted export, which holds the KDF settings.
+ * @returns A promise that resolves with the 32-byte master key.
+ */
+async function deriveBitwardenMasterKey(
+  password: string,
+  envelope: BitwardenEncryptedExport
+): Promise<Uint8Array> {
+  const salt = new TextEncoder().encode(envelope.salt);
+  switch (envelope.kdfType) {
+    case BITWARDEN_KDF.PBKDF2_SHA256:
+      return pbkdf2(password, salt, envelope.kdfIterations, "SHA-256", 32);
+    case BITWARDEN_KDF.ARGON2ID:
+      // Bitwarden hashes the salt first, since Argon2 limits its length.
+      return argon2idAsync(password, await sha256(salt), {
+        t: envelope.kdfIterations,
+        m: (envelope.kdfMemory || 64) * 1024,
+        p: envelope.kdfParallelism || 4,
+        dkLen: 32,
+      });
+    default:
+      throw new Error(
+        `Unsupported Bitwarden key derivation function: ${envelope.kdfType}.`
+      );
+  }
+}
+
+/**
+ * Stretches the master key into separate encryption and MAC keys, using
+ * HKDF-Expand with SHA-256.
+ * @param masterKey The master key derived from the password.
+ * @returns A promise that resolves with the stretched keys.
+ */
+async function stretchBitwardenKey(
+  masterKey: Uint8Array
+): Promise<BitwardenKeys> {
+  // A single HKDF-Expand block is enough for a 32-byte key.
+  const expand = (info: string) =>
+    hmacSha256(
+      masterKey,
+      concatBytes(new TextEncoder().encode(info), new Uint8Array([1]))
+    );
+  return { encKey: await expand("enc"), macKey: await expand("mac") };
+}
+
+/**
+ * Decrypts a Bitwarden cipher string ("2.iv|ciphertext|mac").
+ * @param cipherString The cipher string.
+ * @param keys The encryption and MAC keys.
+ * @returns A promise that resolves with the decrypted text, or null if the MAC
+ * does not match (e.g. because the password is incorrect).
+ */
+async function decryptCipherString(
+  cipherString: string,
+  keys: BitwardenKeys
+): Promise<string | null> {
+  const [type, rest = ""] = cipherString.split(".", 2);
+  const [iv, data, mac] = rest.split("|").map(base64ToUint8Array);
+  if (Number(type) !== BITWARDEN_AES_CBC_HMAC_TYPE || !iv || !data || !mac) {
+    throw new Error("Invalid Bitwarden export: unsupported encryption type.");
+  }
+
+  const expectedMac = await hmacSha256(keys.macKey, concatBytes(iv, data));
+  if (!bytesEqual(mac, expectedMac)) return null;
+
+  const decrypted = await aesCbcDecrypt(keys.encKey, iv, data);
+  return decrypted ? new TextDecoder().decode(decrypted) : null;
+}
+
+/**
+ * Processes an encrypted Bitwarden export, asking the user for its password.
+ * @param envelope The parsed encrypted export.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processBitwardenEncryptedExport(
+  envelope: BitwardenEncryptedExport,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  if (!envelope.passwordProtected) {
+    throw new Error(
+      'This Bitwarden export is encrypted with your account key. Please export it again using the "Password protected" option.'
+    );
+  }
+
+  const json = await decryptWithPassword(
+    requestPassword,
+    "Enter the password for this Bitwarden export.",
+    async (password) => {
+      const keys = await stretchBitwardenKey(
+        await deriveBitwardenMasterKey(password, envelope)
+      );
+      // Checking the validation string first rejects a wrong password early.
+      const validation = await decryptCipherString(
+        envelope.encKeyValidation_DO_NOT_EDIT,
+        keys
+      );
+      if (validation === null) return null;
+      return decryptCipherString(envelope.data, keys);
+    }
+  );
+
+  const data: unknown = JSON.parse(json);
+  if (!isBitwardenExport(data)) {
+    throw new Error("Invalid Bitwarden export: the vault data is malformed.");
+  }
+  return processBitwardenExport(data);
+}
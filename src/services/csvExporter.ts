@@ -11,6 +11,19 @@ const escapeCsvField = (field: any): string => {
   return str;
 };
 
+/**
+ * Builds a CSV string from a header row and data rows, quoting fields where
+ * necessary.
+ * @param headers The column names.
+ * @param rows The data rows, with values in the same order as the headers.
+ * @returns The CSV content.
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\n");
+}
+
 export function downloadAsCsv(otpsToExport: MigrationOtpParameter[]): void {
   if (otpsToExport.length === 0) {
     announceToScreenReader("No data to export.");
@@ -28,13 +41,9 @@ export function downloadAsCsv(otpsToExport: MigrationOtpParameter[]): void {
   ];
 
   const otpDataForCsv = otpsToExport.map(convertToOtpData);
-  const csvRows = [
-    headers.join(","),
-    ...otpDataForCsv.map((otp) =>
-      headers.map((header) => escapeCsvField(otp[header])).join(",")
-    ),
-  ];
-
-  const csvString = csvRows.join("\n");
+  const csvString = toCsv(
+    headers,
+    otpDataForCsv.map((otp) => headers.map((header) => otp[header]))
+  );
   triggerDownload("otp_secrets.csv", csvString, "text/csv;charset=utf-8;");
 }
@@ -1,23 +1,30 @@
 import { MigrationOtpParameter } from "../types";
 import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { isProtonPassCsv, processProtonPassCsv } from "./protonPassProcessor";
+import {
+  isApplePasswordsCsv,
+  processApplePasswordsCsv,
+} from "./applePasswordsProcessor";
 
 /**
- * A simple CSV row parser that handles fields enclosed in double quotes.
- * It supports escaped double quotes ("") inside a quoted field.
- * @param row A single line from a CSV file.
- * @returns An array of strings representing the fields in the row.
+ * A simple CSV parser that handles fields enclosed in double quotes.
+ * It supports escaped double quotes ("") and line breaks inside a quoted
+ * field, which password manager exports use for notes.
+ * @param content The content of a CSV file.
+ * @returns An array of rows, each an array of strings representing its fields.
  */
-function parseCsvRow(row: string): string[] {
-  const fields: string[] = [];
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let fields: string[] = [];
   let currentField = "";
   let inQuotes = false;
 
-  for (let i = 0; i < row.length; i++) {
-    const char = row[i];
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
 
     if (char === '"') {
       // Check for an escaped quote ("")
-      if (inQuotes && row[i + 1] === '"') {
+      if (inQuotes && content[i + 1] === '"') {
         currentField += '"';
         i++; // Skip the second quote of the pair
       } else {
@@ -26,35 +33,49 @@ function parseCsvRow(row: string): string[] {
     } else if (char === "," && !inQuotes) {
       fields.push(currentField);
       currentField = "";
+    } else if ((char === "\n" || char === "\r") && !inQuotes) {
+      if (char === "\r" && content[i + 1] === "\n") i++; // CRLF
+      fields.push(currentField);
+      rows.push(fields);
+      fields = [];
+      currentField = "";
     } else {
       currentField += char;
     }
   }
   fields.push(currentField); // Add the last field
+  rows.push(fields);
 
-  return fields;
+  // Skip blank lines.
+  return rows.filter((row) => row.length > 1 || row[0].trim());
 }
 
 /**
- * Processes the content of one of our own CSV export files.
+ * Processes the content of a CSV file: one of our own CSV exports, a Proton
+ * Pass CSV export or an Apple Passwords CSV export.
  * @param fileContent The string content of the CSV file.
  * @returns A promise that resolves to an array of OTP parameters.
  */
 export async function processCsv(
   fileContent: string
 ): Promise<MigrationOtpParameter[]> {
-  const rows = fileContent.trim().split(/\r?\n/);
+  const rows = parseCsv(fileContent);
   if (rows.length < 2) return []; // Not enough rows for a header and data.
 
-  const headers = rows[0].split(",").map((h) => h.trim());
+  const headers = rows[0].map((h) => h.trim());
+  if (isProtonPassCsv(headers)) {
+    return processProtonPassCsv(headers, rows.slice(1));
+  }
+  if (isApplePasswordsCsv(headers)) {
+    return processApplePasswordsCsv(headers, rows.slice(1));
+  }
+
   const urlIndex = headers.indexOf("url");
 
   if (urlIndex === -1) return []; // 'url' column is required.
 
   const allOtpParams: MigrationOtpParameter[] = [];
-  for (const row of rows.slice(1)) {
-    if (!row.trim()) continue;
-    const fields = parseCsvRow(row);
+  for (const fields of rows.slice(1)) {
     const otpUrl = fields[urlIndex];
     if (otpUrl) allOtpParams.push(...(await getOtpParametersFromUrl(otpUrl)));
   }
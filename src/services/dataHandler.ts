@@ -1,6 +1,7 @@
 import { encode } from "thirty-two";
 import { MigrationOtpParameter } from "../types";
 import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { recordBatchProgress } from "./batchProgress";
 import { addUploadLog } from "../ui/notifications";
 import { getState, setState } from "../state/store";
 import { logger } from "./logger";
@@ -88,6 +89,7 @@ export async function handleDecodedQrString(
       existingKeys,
       sourceName
     );
+    recordBatchProgress(otpParameters, sourceName);
 
     if (newOtps.length > 0) {
       setState((currentState) => ({
@@ -1,12 +1,12 @@
 /**
  * Creates a file blob and triggers a browser download.
  * @param filename The name of the file to be downloaded.
- * @param content The string content of the file.
+ * @param content The text or binary content of the file.
  * @param mimeType The MIME type of the file.
  */
 export function triggerDownload(
   filename: string,
-  content: string,
+  content: string | Uint8Array,
   mimeType: string
 ): void {
   const blob = new Blob([content], { type: mimeType });
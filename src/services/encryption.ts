@@ -0,0 +1,300 @@
+/**
+ * This module contains shared helpers for working with encrypted backups.
+ * All cryptography happens locally in the browser, using the WebCrypto API
+ * where it supports the required primitive.
+ */
+
+/**
+ * Converts a hex string into a Uint8Array.
+ * @param hex The hex encoded string.
+ * @returns The decoded bytes.
+ */
+export function hexToUint8Array(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Converts a Uint8Array into a lowercase hex string.
+ * @param bytes The bytes to encode.
+ * @returns The hex encoded string.
+ */
+export function uint8ArrayToHex(bytes: Uint8Array): string {
+  return bytes.reduce(
+    (str, byte) => str + byte.toString(16).padStart(2, "0"),
+    ""
+  );
+}
+
+/**
+ * Concatenates several byte arrays into a single Uint8Array.
+ * @param arrays The byte arrays to join.
+ * @returns A new Uint8Array containing all the bytes in order.
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    arrays.reduce((total, arr) => total + arr.length, 0)
+  );
+  let offset = 0;
+  for (const arr of arrays) {
+    result.set(arr, offset);
+    offset += arr.length;
+  }
+  return result;
+}
+
+/**
+ * Generates cryptographically secure random bytes.
+ * @param length The number of bytes to generate.
+ * @returns A new Uint8Array filled with random bytes.
+ */
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Encrypts data with AES-GCM.
+ * @param key The raw AES key.
+ * @param iv The nonce to use. It must never be reused with the same key.
+ * @param plaintext The data to encrypt.
+ * @returns The ciphertext, followed by the 16-byte authentication tag.
+ */
+export async function aesGcmEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-GCM",
+    false,
+    ["encrypt"]
+  );
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    cryptoKey,
+    plaintext
+  );
+  return new Uint8Array(ciphertext);
+}
+
+/**
+ * Decrypts AES-GCM encrypted data.
+ * @param key The raw AES key.
+ * @param iv The nonce used during encryption.
+ * @param data The ciphertext, followed by the 16-byte authentication tag.
+ * @param additionalData Optional additional authenticated data.
+ * @returns The decrypted bytes, or null if authentication fails (e.g. because
+ * the key was derived from the wrong password).
+ */
+export async function aesGcmDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  additionalData?: Uint8Array
+): Promise<Uint8Array | null> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      additionalData
+        ? { name: "AES-GCM", iv, additionalData }
+        : { name: "AES-GCM", iv },
+      cryptoKey,
+      data
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypts data with AES-CBC and PKCS#7 padding.
+ * @param key The raw AES key.
+ * @param iv The 16-byte initialization vector.
+ * @param plaintext The data to encrypt.
+ * @returns The ciphertext, including a final padding block.
+ */
+export async function aesCbcEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-CBC",
+    false,
+    ["encrypt"]
+  );
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-CBC", iv },
+    cryptoKey,
+    plaintext
+  );
+  return new Uint8Array(ciphertext);
+}
+
+/**
+ * Decrypts AES-CBC encrypted data with PKCS#7 padding.
+ * @param key The raw AES key.
+ * @param iv The 16-byte initialization vector.
+ * @param data The ciphertext.
+ * @returns The decrypted bytes, or null if the padding is invalid (e.g.
+ * because the key was derived from the wrong password).
+ */
+export async function aesCbcDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array | null> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-CBC",
+    false,
+    ["decrypt"]
+  );
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-CBC", iv },
+      cryptoKey,
+      data
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Computes the SHA-256 digest of some data.
+ * @param data The data to hash.
+ * @returns A promise that resolves with the 32-byte digest.
+ */
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+/**
+ * Computes the SHA-512 digest of some data.
+ * @param data The data to hash.
+ * @returns A promise that resolves with the 64-byte digest.
+ */
+export async function sha512(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-512", data));
+}
+
+/**
+ * Computes an HMAC-SHA256 of some data.
+ * @param key The raw HMAC key.
+ * @param data The data to authenticate.
+ * @returns A promise that resolves with the 32-byte MAC.
+ */
+export async function hmacSha256(
+  key: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+/**
+ * Compares two byte arrays in constant time (for equal lengths), for
+ * checking authentication tags.
+ * @param a The first byte array.
+ * @param b The second byte array.
+ * @returns True if both arrays hold the same bytes.
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Derives a key from a password using PBKDF2.
+ * @param password The password (or raw key material) to derive the key from.
+ * @param salt The salt.
+ * @param iterations The number of iterations.
+ * @param hash The HMAC hash function to use.
+ * @param length The length of the derived key in bytes.
+ * @returns A promise that resolves with the derived key.
+ */
+export async function pbkdf2(
+  password: string | Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  hash: "SHA-1" | "SHA-256" | "SHA-512",
+  length: number
+): Promise<Uint8Array> {
+  const passwordBytes =
+    typeof password === "string"
+      ? new TextEncoder().encode(password)
+      : password;
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    passwordBytes,
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash },
+    baseKey,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Repeatedly asks the user for a password until the supplied decryption
+ * function succeeds, or the user cancels.
+ * @param requestPassword The callback used to ask the user for a password (or
+ * other credentials, such as a password and a key file).
+ * @param prompt The message to show the user.
+ * @param decrypt A function that attempts decryption with a password. It
+ * should resolve with null if the password is incorrect.
+ * @returns A promise that resolves with the decrypted result.
+ */
+export async function decryptWithPassword<T, C = string>(
+  requestPassword: ((prompt: string) => Promise<C | null>) | undefined,
+  prompt: string,
+  decrypt: (password: C) => Promise<T | null>
+): Promise<T> {
+  if (!requestPassword) {
+    throw new Error("This file is encrypted and requires a password.");
+  }
+
+  let message = prompt;
+  for (;;) {
+    const password = await requestPassword(message);
+    if (password === null) {
+      throw new Error("Password entry cancelled.");
+    }
+    const result = await decrypt(password);
+    if (result !== null) {
+      return result;
+    }
+    message = `Incorrect password. ${prompt}`;
+  }
+}
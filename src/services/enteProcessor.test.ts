@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { processJson } from "./jsonProcessor";
+import { readTestText } from "../../tests/testHelpers";
+
+describe("Ente Auth Import", () => {
+  it("should decrypt an encrypted export and skip trashed codes", async () => {
+    const requestPassword = vi
+      .fn()
+      .mockResolvedValueOnce("wrong")
+      .mockResolvedValueOnce("test");
+    const otpParameters = await processJson(
+      readTestText("ente_encrypted.json"),
+      requestPassword
+    );
+
+    expect(requestPassword).toHaveBeenCalledTimes(2);
+    expect(requestPassword.mock.calls[1][0]).toMatch(/^Incorrect password/);
+
+    // The trashed code is skipped.
+    expect(otpParameters).toHaveLength(4);
+    const [github, counter, ente, steam] = otpParameters;
+
+    expect(github.name).toBe("octocat");
+    expect(github.issuer).toBe("GitHub");
+    expect(encode(github.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    expect(counter.name).toBe("carol");
+    expect(counter.type).toBe(1); // HOTP
+    expect(counter.counter).toBe(3);
+
+    expect(ente.name).toBe("erin");
+    expect(ente.issuer).toBe("Ente");
+    expect(ente.algorithm).toBe(2); // SHA256
+    expect(ente.digits).toBe(2); // 8 digits
+    expect(ente.period).toBe(60);
+
+    expect(steam.name).toBe("gabe");
+    expect(steam.issuer).toBe("Steam");
+    expect(steam.type).toBe(3); // Steam
+  });
+
+  it("should fail when the password prompt is cancelled", async () => {
+    await expect(
+      processJson(
+        readTestText("ente_encrypted.json"),
+        vi.fn(async () => null)
+      )
+    ).rejects.toThrow("Password entry cancelled.");
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * This module handles importing encrypted Ente Auth exports. The export is
+ * decrypted locally: the key is derived from the password with Argon2id, and
+ * the data is decrypted with libsodium's XChaCha20-Poly1305 "secretstream"
+ * construction, implemented here on top of the noble primitives. The
+ * decrypted data is a list of otpauth URIs, one per line.
+ */
+import { argon2idAsync } from "@noble/hashes/argon2";
+import { chacha20, hchacha } from "@noble/ciphers/chacha";
+import { poly1305 } from "@noble/ciphers/_poly1305";
+import {
+  EnteCodeDisplay,
+  EnteEncryptedExport,
+  MigrationOtpParameter,
+  PasswordProvider,
+} from "../types";
+import { decodeStandardOtpAuthUrl } from "./otpUrlParser";
+import { base64ToUint8Array } from "./protobufProcessor";
+import { bytesEqual, decryptWithPassword } from "./encryption";
+import { logger } from "./logger";
+
+/** The ChaCha20 constant "expand 32-byte k", as little-endian words. */
+const CHACHA20_SIGMA = new Uint32Array([
+  0x61707865, 0x3320646e, 0x79622d32, 0x6b206574,
+]);
+
+/** The size of the secretstream header and of its authentication tag. */
+const SECRETSTREAM_HEADER_BYTES = 24;
+const SECRETSTREAM_ABYTES = 17;
+
+/**
+ * Type guard to check if the parsed JSON is an encrypted Ente Auth export.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like an encrypted Ente Auth export.
+ */
+export function isEnteEncryptedExport(
+  data: unknown
+): data is EnteEncryptedExport {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as EnteEncryptedExport).kdfParams === "object" &&
+    typeof (data as EnteEncryptedExport).encryptedData === "string" &&
+    typeof (data as EnteEncryptedExport).encryptionNonce === "string"
+  );
+}
+
+/**
+ * Reinterprets little-endian bytes as 32-bit words.
+ * @param bytes The bytes, whose length must be a multiple of 4.
+ * @returns The words.
+ */
+function toWords(bytes: Uint8Array): Uint32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Uint32Array.from({ length: bytes.length / 4 }, (_, i) =>
+    view.getUint32(i * 4, true)
+  );
+}
+
+/**
+ * Derives a subkey with HChaCha20, as done by XChaCha20.
+ * @param key The 32-byte key.
+ * @param input The 16-byte input (the first half of the extended nonce).
+ * @returns The 32-byte subkey.
+ */
+function hchacha20(key: Uint8Array, input: Uint8Array): Uint8Array {
+  const output = new Uint32Array(8);
+  hchacha(CHACHA20_SIGMA, toWords(key), toWords(input), output);
+  const bytes = new Uint8Array(32);
+  const view = new DataView(bytes.buffer);
+  output.forEach((word, i) => view.setUint32(i * 4, word, true));
+  return bytes;
+}
+
+/**
+ * Encodes a length as a little-endian 64-bit integer, as used by Poly1305.
+ * @param length The length to encode.
+ * @returns The encoded bytes.
+ */
+function lengthBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setUint32(0, length, true);
+  return bytes;
+}
+
+/**
+ * Decrypts the first message of a libsodium
+ * `crypto_secretstream_xchacha20poly1305` stream. Ente Auth encrypts the
+ * whole export as a single message.
+ * @param key The 32-byte key.
+ * @param header The 24-byte stream header.
+ * @param ciphertext The encrypted message, including its tag byte and MAC.
+ * @returns The decrypted message, or null if authentication fails.
+ */
+function secretStreamDecrypt(
+  key: Uint8Array,
+  header: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array | null {
+  if (
+    header.length !== SECRETSTREAM_HEADER_BYTES ||
+    ciphertext.length < SECRETSTREAM_ABYTES
+  ) {
+    return null;
+  }
+  const subkey = hchacha20(key, header.subarray(0, 16));
+  // The nonce is a 32-bit counter, starting at 1, followed by the rest of
+  // the header.
+  const nonce = new Uint8Array(12);
+  nonce[0] = 1;
+  nonce.set(header.subarray(16, 24), 4);
+
+  // Block 0 of the keystream is the Poly1305 key; block 1 encrypts the tag.
+  const macKey = chacha20(subkey, nonce, new Uint8Array(64)).subarray(0, 32);
+  const tagBlock = chacha20(subkey, nonce, new Uint8Array(64), undefined, 1);
+  tagBlock[0] = ciphertext[0];
+
+  const message = ciphertext.subarray(1, ciphertext.length - 16);
+  const mac = poly1305
+    .create(macKey)
+    .update(tagBlock)
+    .update(message)
+    // libsodium pads by (16 - 64 + length) & 15, i.e. length % 16.
+    .update(new Uint8Array(message.length % 16))
+    .update(lengthBytes(0)) // No additional data.
+    .update(lengthBytes(64 + message.length))
+    .digest();
+  if (!bytesEqual(mac, ciphertext.subarray(ciphertext.length - 16))) {
+    return null;
+  }
+  return chacha20(subkey, nonce, message, undefined, 2);
+}
+
+/**
+ * Decrypts an Ente Auth export with the given password.
+ * @param data The encrypted export.
+ * @param password The export password.
+ * @returns A promise that resolves with the decrypted text, or null if the
+ * password is incorrect.
+ */
+async function decryptEnteExport(
+  data: EnteEncryptedExport,
+  password: string
+): Promise<string | null> {
+  const { memLimit, opsLimit, salt } = data.kdfParams;
+  const key = await argon2idAsync(password, base64ToUint8Array(salt), {
+    t: opsLimit,
+    m: memLimit / 1024, // Bytes to KiB
+    p: 1,
+    dkLen: 32,
+  });
+  const plaintext = secretStreamDecrypt(
+    key,
+    base64ToUint8Array(data.encryptionNonce),
+    base64ToUint8Array(data.encryptedData)
+  );
+  return plaintext && new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Reads the display settings Ente Auth stores alongside an otpauth URI.
+ * @param uri The otpauth URI.
+ * @returns The display settings, or an empty object if there are none or
+ * they are not valid JSON.
+ */
+function getCodeDisplay(uri: string): EnteCodeDisplay {
+  const codeDisplay = new URL(uri).searchParams.get("codeDisplay");
+  if (!codeDisplay) return {};
+  try {
+    return JSON.parse(codeDisplay);
+  } catch (error: any) {
+    // The code itself is still usable without its display settings.
+    logger.warn(
+      "Ignoring invalid display settings in Ente Auth export:",
+      error
+    );
+    return {};
+  }
+}
+
+/**
+ * Processes the decrypted list of otpauth URIs. Codes in Ente's trash are
+ * left out.
+ * @param content The decrypted export.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+async function processEnteUriList(
+  content: string
+): Promise<MigrationOtpParameter[]> {
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const uri = line.trim();
+    if (!uri) continue;
+    try {
+      if (getCodeDisplay(uri).trashed) continue;
+      otpParameters.push(...(await decodeStandardOtpAuthUrl(uri)));
+    } catch (error: any) {
+      logger.warn("Skipping invalid OTP URI in Ente Auth export:", error);
+    }
+  }
+  return otpParameters;
+}
+
+/**
+ * Processes an encrypted Ente Auth export.
+ * @param data The parsed Ente Auth export.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processEnteEncryptedExport(
+  data: EnteEncryptedExport,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  const content = await decryptWithPassword(
+    requestPassword,
+    "Enter the password for this Ente Auth export.",
+    (password) => decryptEnteExport(data, password)
+  );
+  return processEnteUriList(content);
+}
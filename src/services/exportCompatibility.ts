@@ -0,0 +1,88 @@
+/**
+ * This module checks that the accounts selected for an export can be
+ * represented by the target app. An app that drops an account's settings
+ * would show wrong codes for it without any warning, so such exports are
+ * refused with a message telling the user which accounts to deselect.
+ */
+import { MigrationOtpParameter } from "../types";
+import { OtpType } from "../ui/otp";
+import { UNSUPPORTED_DIGITS } from "./otpDataMapper";
+
+/** The time step, in seconds, that every authenticator app supports. */
+const DEFAULT_PERIOD = 30;
+
+/** The value of the MD5 algorithm in Google's format. */
+const MD5_ALGORITHM = 4;
+
+/**
+ * Describes which accounts an export target can represent.
+ */
+export interface ExportTarget {
+  /** The name of the target app, used in error messages. */
+  appName: string;
+  /** True if the app can generate Steam Guard codes. */
+  supportsSteam: boolean;
+  /** True if the app supports time steps other than 30 seconds. */
+  supportsCustomPeriods: boolean;
+  /** False if the app cannot generate codes with the MD5 algorithm. */
+  supportsMd5?: boolean;
+}
+
+/**
+ * Returns the plural suffix for a number of accounts.
+ * @param count The number of accounts.
+ * @returns "s" unless there is exactly one account.
+ */
+function plural(count: number): string {
+  return count === 1 ? "" : "s";
+}
+
+/**
+ * Ensures that the target app can represent every one of the OTPs. Steam
+ * Guard accounts, MD5 accounts, time steps other than 30 seconds and digit
+ * counts other than 6 or 8 are checked.
+ * @param otps The list of OTP parameters to export.
+ * @param target The app the OTPs are exported to.
+ */
+export function assertExportable(
+  otps: MigrationOtpParameter[],
+  target: ExportTarget
+): void {
+  const { appName } = target;
+
+  const steamCount = otps.filter((otp) => otp.type === OtpType.STEAM).length;
+  if (steamCount > 0 && !target.supportsSteam) {
+    throw new Error(
+      `${appName} does not support Steam Guard accounts. Deselect the ${steamCount} Steam account${plural(steamCount)} and try again.`
+    );
+  }
+
+  const md5Count = otps.filter((otp) => otp.algorithm === MD5_ALGORITHM).length;
+  if (md5Count > 0 && target.supportsMd5 === false) {
+    throw new Error(
+      `${appName} does not support the MD5 algorithm. Deselect the ${md5Count} MD5 account${plural(md5Count)} and try again.`
+    );
+  }
+
+  // An unspecified digit count means 6 digits; only counts that the
+  // importer could not map to 6 or 8 are refused.
+  const digitsCount = otps.filter(
+    (otp) => otp.digits === UNSUPPORTED_DIGITS
+  ).length;
+  if (digitsCount > 0) {
+    throw new Error(
+      `${appName} only supports 6- and 8-digit codes. Deselect the ${digitsCount} account${plural(digitsCount)} with a different number of digits and try again.`
+    );
+  }
+
+  const periodCount = otps.filter(
+    (otp) =>
+      otp.type === OtpType.TOTP &&
+      (otp.period || DEFAULT_PERIOD) !== DEFAULT_PERIOD
+  ).length;
+  if (periodCount > 0 && !target.supportsCustomPeriods) {
+    throw new Error(
+      `${appName} only supports 30-second codes. Deselect the ${periodCount} account${plural(periodCount)} with a different time step and try again.`
+    );
+  }
+}
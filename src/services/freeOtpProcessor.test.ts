@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { processJson } from "./jsonProcessor";
+import { processFreeOtpBackup } from "./freeOtpProcessor";
+import { readTestData } from "../../tests/testHelpers";
+
+// "JBSWY3DPEHPK3PXP" as signed Java bytes.
+const HELLO_SECRET = [72, 101, 108, 108, 111, 33, -34, -83, -66, -17];
+
+const mockFreeOtpPlusBackup = JSON.stringify({
+  tokenOrder: ["Example:alice@example.com", "Steam:gamer"],
+  tokens: [
+    {
+      algo: "SHA256",
+      counter: 0,
+      digits: 8,
+      issuerExt: "Example",
+      issuerInt: "Example",
+      label: "alice@example.com",
+      period: 60,
+      secret: HELLO_SECRET,
+      type: "TOTP",
+    },
+    {
+      algo: "SHA1",
+      counter: 0,
+      digits: 5,
+      issuerExt: "Steam",
+      label: "gamer",
+      period: 30,
+      secret: HELLO_SECRET,
+      type: "STEAM",
+    },
+  ],
+});
+
+const mockTokensXml = `<?xml version='1.0' encoding='utf-8' standalone='yes' ?>
+<map>
+    <string name="tokenOrder">[&quot;Example:alice@example.com&quot;]</string>
+    <string name="Example:alice@example.com">{&quot;algo&quot;:&quot;SHA1&quot;,&quot;counter&quot;:7,&quot;digits&quot;:6,&quot;issuerExt&quot;:&quot;Example&quot;,&quot;label&quot;:&quot;alice@example.com&quot;,&quot;period&quot;:30,&quot;secret&quot;:[72,101,108,108,111,33,-34,-83,-66,-17],&quot;type&quot;:&quot;HOTP&quot;}</string>
+</map>
+`;
+
+describe("FreeOTP Backup Import", () => {
+  it("should correctly parse a FreeOTP+ JSON export", async () => {
+    const otpParameters = await processJson(mockFreeOtpPlusBackup);
+
+    // The Steam token is not supported and should be skipped.
+    expect(otpParameters).toHaveLength(1);
+    const otp = otpParameters[0];
+    expect(otp.name).toBe("alice@example.com");
+    expect(otp.issuer).toBe("Example");
+    expect(otp.algorithm).toBe(2); // SHA256
+    expect(otp.digits).toBe(2); // 8 digits
+    expect(otp.period).toBe(60);
+    expect(encode(otp.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+  });
+
+  it("should correctly parse a FreeOTP tokens.xml file", async () => {
+    const fileBytes = new TextEncoder().encode(mockTokensXml);
+    const otpParameters = await processFreeOtpBackup(fileBytes);
+
+    expect(otpParameters).toHaveLength(1);
+    const otp = otpParameters[0];
+    expect(otp.name).toBe("alice@example.com");
+    expect(otp.issuer).toBe("Example");
+    expect(otp.type).toBe(1); // HOTP
+    expect(otp.counter).toBe(7);
+    expect(encode(otp.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+  });
+
+  it("should decrypt an encrypted FreeOTP backup", async () => {
+    const requestPassword = vi.fn().mockResolvedValue("test");
+    const otpParameters = await processFreeOtpBackup(
+      readTestData("freeotp_externalBackup.xml"),
+      requestPassword
+    );
+
+    expect(requestPassword).toHaveBeenCalledTimes(1);
+    expect(otpParameters).toHaveLength(2);
+
+    const totp = otpParameters.find((otp) => otp.issuer === "Example")!;
+    expect(totp.name).toBe("alice@example.com");
+    expect(totp.type).toBe(2); // TOTP
+    expect(encode(totp.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    const hotp = otpParameters.find((otp) => otp.issuer === "HotpService")!;
+    expect(hotp.name).toBe("bob");
+    expect(hotp.type).toBe(1); // HOTP
+    expect(hotp.algorithm).toBe(2); // SHA256
+    expect(hotp.digits).toBe(2); // 8 digits
+    expect(hotp.counter).toBe(5);
+    expect(encode(hotp.secret).toString()).toBe(
+      "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+    );
+  });
+
+  it("should ask again when the password is incorrect", async () => {
+    const requestPassword = vi
+      .fn()
+      .mockResolvedValueOnce("wrong")
+      .mockResolvedValueOnce("test");
+    const otpParameters = await processFreeOtpBackup(
+      readTestData("freeotp_externalBackup.xml"),
+      requestPassword
+    );
+
+    expect(requestPassword).toHaveBeenCalledTimes(2);
+    expect(requestPassword.mock.calls[1][0]).toMatch(/^Incorrect password/);
+    expect(otpParameters).toHaveLength(2);
+  });
+});
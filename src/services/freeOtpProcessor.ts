@@ -0,0 +1,388 @@
+/**
+ * This module handles importing backups from FreeOTP and FreeOTP+.
+ *
+ * - FreeOTP+ exports a JSON file with a `tokens` array.
+ * - The original FreeOTP stores its tokens in a `tokens.xml` preferences file,
+ *   with each token serialized as a JSON string.
+ * - FreeOTP 2.x backups (`externalBackup.xml`) are a Java-serialized map of
+ *   JSON strings, in which each token's secret is encrypted with AES-GCM under
+ *   a master key that is itself protected by a PBKDF2-derived password key.
+ */
+import { encode as base32Encode } from "thirty-two";
+import {
+  FreeOtpEncryptedKey,
+  FreeOtpMasterKey,
+  FreeOtpPlusBackup,
+  FreeOtpToken,
+  MigrationOtpParameter,
+  PasswordProvider,
+} from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { aesGcmDecrypt, decryptWithPassword, pbkdf2 } from "./encryption";
+import { logger } from "./logger";
+
+// --- Java Object Serialization Constants ---
+
+const JAVA_STREAM_MAGIC = 0xaced;
+const TC_NULL = 0x70;
+const TC_REFERENCE = 0x71;
+const TC_CLASSDESC = 0x72;
+const TC_OBJECT = 0x73;
+const TC_STRING = 0x74;
+const TC_BLOCKDATA = 0x77;
+const TC_ENDBLOCKDATA = 0x78;
+const TC_LONGSTRING = 0x7c;
+const BASE_WIRE_HANDLE = 0x7e0000;
+
+/** The size in bytes of each Java primitive field type code. */
+const JAVA_PRIMITIVE_SIZES: { [typeCode: string]: number } = {
+  B: 1,
+  C: 2,
+  D: 8,
+  F: 4,
+  I: 4,
+  J: 8,
+  S: 2,
+  Z: 1,
+};
+
+/** The key under which FreeOTP 2.x stores the encrypted master key. */
+const MASTER_KEY_NAME = "masterKey";
+/** The key under which FreeOTP stores the display order of its tokens. */
+const TOKEN_ORDER_NAME = "tokenOrder";
+
+// --- Helpers ---
+
+/**
+ * Converts an array of signed Java bytes into a Uint8Array.
+ * @param bytes The signed byte values (-128 to 127).
+ * @returns The equivalent unsigned bytes.
+ */
+function javaBytesToUint8Array(bytes: number[]): Uint8Array {
+  return new Uint8Array(bytes.map((b) => b & 0xff));
+}
+
+/**
+ * Converts a FreeOTP token into the standard OTP parameter format.
+ * @param token The FreeOTP token metadata.
+ * @param secret The raw secret bytes of the token.
+ * @returns The OTP parameter, or null if the token type is not supported.
+ */
+function mapFreeOtpToken(
+  token: FreeOtpToken,
+  secret: Uint8Array
+): MigrationOtpParameter | null {
+  const type = token.type.toLowerCase();
+  if (type !== "totp" && type !== "hotp") {
+    logger.warn(
+      `Skipping unsupported FreeOTP token type "${token.type}": ${token.label}`
+    );
+    return null;
+  }
+
+  const rawAccount: RawOtpAccount = {
+    name: token.label,
+    issuer: token.issuerExt || token.issuerInt || "",
+    secret: base32Encode(secret).toString(),
+    algorithm: token.algo || "SHA1",
+    digits: token.digits,
+    type: type,
+    counter: type === "hotp" ? token.counter : undefined,
+    period: type === "totp" ? token.period : undefined,
+  };
+  return mapToMigrationOtpParameter(rawAccount);
+}
+
+/**
+ * Maps a list of tokens with embedded secrets to OTP parameters.
+ * @param tokens The FreeOTP tokens.
+ * @returns An array of OTP parameters.
+ */
+function mapTokensWithSecrets(tokens: FreeOtpToken[]): MigrationOtpParameter[] {
+  return tokens
+    .map((token) => {
+      if (!Array.isArray(token.secret)) {
+        logger.warn(`Skipping FreeOTP token without a secret: ${token.label}`);
+        return null;
+      }
+      return mapFreeOtpToken(token, javaBytesToUint8Array(token.secret));
+    })
+    .filter((otp): otp is MigrationOtpParameter => otp !== null);
+}
+
+// --- FreeOTP+ JSON ---
+
+/**
+ * Type guard to check if the parsed JSON is a FreeOTP+ export.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like a FreeOTP+ export.
+ */
+export function isFreeOtpPlusBackup(data: unknown): data is FreeOtpPlusBackup {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    Array.isArray((data as FreeOtpPlusBackup).tokens)
+  );
+}
+
+/**
+ * Processes a FreeOTP+ JSON export.
+ * @param backup The parsed FreeOTP+ export.
+ * @returns An array of OTP parameters.
+ */
+export function processFreeOtpPlusBackup(
+  backup: FreeOtpPlusBackup
+): MigrationOtpParameter[] {
+  return mapTokensWithSecrets(backup.tokens);
+}
+
+// --- FreeOTP Backup Containers ---
+
+/**
+ * Reads a Java-serialized `HashMap<String, String>`, as written by
+ * `ObjectOutputStream`. Only the subset of the serialization protocol needed
+ * for a map of strings is supported.
+ * @param bytes The serialized bytes.
+ * @returns The entries of the map.
+ */
+function readJavaSerializedStringMap(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const handles: unknown[] = [];
+  let offset = 0;
+
+  const readByte = () => view.getUint8(offset++);
+  const readUint16 = () => {
+    const value = view.getUint16(offset);
+    offset += 2;
+    return value;
+  };
+  const readUtf = (length: number) => {
+    const value = decoder.decode(bytes.subarray(offset, offset + length));
+    offset += length;
+    return value;
+  };
+
+  const readString = (): string => {
+    const tc = readByte();
+    if (tc === TC_REFERENCE) {
+      const handle = view.getInt32(offset) - BASE_WIRE_HANDLE;
+      offset += 4;
+      return handles[handle] as string;
+    }
+    let length: number;
+    if (tc === TC_STRING) {
+      length = readUint16();
+    } else if (tc === TC_LONGSTRING) {
+      length = Number(view.getBigUint64(offset));
+      offset += 8;
+    } else {
+      throw new Error(
+        `Unexpected serialization type code 0x${tc.toString(16)}.`
+      );
+    }
+    const value = readUtf(length);
+    handles.push(value);
+    return value;
+  };
+
+  /** Reads a class descriptor, returning its primitive field type codes. */
+  const readClassDesc = (): string[] => {
+    if (readByte() !== TC_CLASSDESC) {
+      throw new Error("Unsupported serialized object: expected a class.");
+    }
+    handles.push(null); // Placeholder for the class descriptor's handle.
+    readUtf(readUint16()); // Class name
+    offset += 8; // serialVersionUID
+    offset += 1; // Flags
+    const fieldTypes: string[] = [];
+    const fieldCount = readUint16();
+    for (let i = 0; i < fieldCount; i++) {
+      const typeCode = String.fromCharCode(readByte());
+      readUtf(readUint16()); // Field name
+      if (typeCode === "L" || typeCode === "[") {
+        readString(); // Field class name
+      } else {
+        fieldTypes.push(typeCode);
+      }
+    }
+    if (readByte() !== TC_ENDBLOCKDATA || readByte() !== TC_NULL) {
+      throw new Error("Unsupported serialized object: unexpected class data.");
+    }
+    return fieldTypes;
+  };
+
+  if (view.getUint16(0) !== JAVA_STREAM_MAGIC) {
+    throw new Error("Invalid FreeOTP backup: not a Java serialized object.");
+  }
+  offset = 4; // Skip the magic number and stream version.
+
+  if (readByte() !== TC_OBJECT) {
+    throw new Error("Invalid FreeOTP backup: expected a serialized map.");
+  }
+  const fieldTypes = readClassDesc();
+  handles.push(null); // Placeholder for the map object's handle.
+  for (const typeCode of fieldTypes) {
+    offset += JAVA_PRIMITIVE_SIZES[typeCode]; // loadFactor, threshold
+  }
+
+  // HashMap.writeObject() writes its capacity and size as block data,
+  // followed by the keys and values as objects.
+  if (readByte() !== TC_BLOCKDATA) {
+    throw new Error("Invalid FreeOTP backup: map data not found.");
+  }
+  const blockLength = readByte();
+  const size = view.getInt32(offset + 4);
+  offset += blockLength;
+
+  const entries = new Map<string, string>();
+  for (let i = 0; i < size; i++) {
+    const key = readString();
+    entries.set(key, readString());
+  }
+  return entries;
+}
+
+/**
+ * Reads an Android shared preferences XML file (like FreeOTP's `tokens.xml`).
+ * @param xmlString The XML content of the file.
+ * @returns The string entries of the preferences file.
+ */
+function readSharedPreferencesXml(xmlString: string): Map<string, string> {
+  const doc = new DOMParser().parseFromString(xmlString, "application/xml");
+  if (
+    doc.querySelector("parsererror") ||
+    doc.documentElement.nodeName !== "map"
+  ) {
+    throw new Error("Invalid FreeOTP backup: the XML could not be parsed.");
+  }
+
+  const entries = new Map<string, string>();
+  doc.documentElement.querySelectorAll("string").forEach((element) => {
+    const name = element.getAttribute("name");
+    if (name) entries.set(name, element.textContent || "");
+  });
+  return entries;
+}
+
+// --- FreeOTP 2.x Decryption ---
+
+/**
+ * Extracts the nonce from DER encoded Java `GCMParameterSpec` parameters:
+ * SEQUENCE { OCTET STRING nonce, INTEGER tagLength }.
+ * @param parameters The DER encoded parameters.
+ * @returns The nonce.
+ */
+function parseGcmParameters(parameters: Uint8Array): Uint8Array {
+  if (parameters[0] !== 0x30 || parameters[2] !== 0x04) {
+    throw new Error("Invalid FreeOTP backup: unsupported key parameters.");
+  }
+  const nonceLength = parameters[3];
+  return parameters.slice(4, 4 + nonceLength);
+}
+
+/**
+ * Decrypts a key encrypted by FreeOTP. The key's algorithm name is used as
+ * the additional authenticated data.
+ * @param key The AES key to decrypt with.
+ * @param encryptedKey The encrypted key.
+ * @returns The decrypted key bytes, or null if decryption fails.
+ */
+function decryptFreeOtpKey(
+  key: Uint8Array,
+  encryptedKey: FreeOtpEncryptedKey
+): Promise<Uint8Array | null> {
+  return aesGcmDecrypt(
+    key,
+    parseGcmParameters(javaBytesToUint8Array(encryptedKey.mParameters)),
+    javaBytesToUint8Array(encryptedKey.mCipherText),
+    new TextEncoder().encode(encryptedKey.mToken)
+  );
+}
+
+/**
+ * Decrypts the tokens of a FreeOTP 2.x backup.
+ * @param entries The entries of the backup map.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+async function processEncryptedFreeOtpBackup(
+  entries: Map<string, string>,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  const masterKeyInfo: FreeOtpMasterKey = JSON.parse(
+    entries.get(MASTER_KEY_NAME)!
+  );
+  const hashMatch = /sha(1|256|512)$/i.exec(masterKeyInfo.mAlgorithm);
+  const hash = hashMatch
+    ? (`SHA-${hashMatch[1]}` as "SHA-1" | "SHA-256" | "SHA-512")
+    : "SHA-512";
+
+  const masterKey = await decryptWithPassword(
+    requestPassword,
+    "Enter the password for this FreeOTP backup.",
+    async (password) => {
+      const passwordKey = await pbkdf2(
+        password,
+        javaBytesToUint8Array(masterKeyInfo.mSalt),
+        masterKeyInfo.mIterations,
+        hash,
+        32
+      );
+      return decryptFreeOtpKey(passwordKey, masterKeyInfo.mEncryptedKey);
+    }
+  );
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const [name, value] of entries) {
+    // Each token is stored as "<uuid>" (its encrypted key) and
+    // "<uuid>-token" (its metadata).
+    const tokenJson = entries.get(`${name}-token`);
+    if (name === MASTER_KEY_NAME || !tokenJson) continue;
+
+    const token: FreeOtpToken = JSON.parse(tokenJson);
+    const encryptedKey: FreeOtpEncryptedKey = JSON.parse(JSON.parse(value).key);
+    const secret = await decryptFreeOtpKey(masterKey, encryptedKey);
+    if (!secret) {
+      throw new Error(
+        `Failed to decrypt the FreeOTP token "${token.label}". The file may be corrupted.`
+      );
+    }
+
+    const otp = mapFreeOtpToken(token, secret);
+    if (otp) otpParameters.push(otp);
+  }
+  return otpParameters;
+}
+
+/**
+ * Processes a FreeOTP backup file: either the original `tokens.xml`
+ * preferences file or a FreeOTP 2.x `externalBackup.xml`.
+ * @param fileBytes The raw contents of the backup file.
+ * @param requestPassword The callback used to ask the user for the password
+ * of an encrypted backup.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processFreeOtpBackup(
+  fileBytes: Uint8Array,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  const isJavaSerialized =
+    fileBytes.length > 2 &&
+    ((fileBytes[0] << 8) | fileBytes[1]) === JAVA_STREAM_MAGIC;
+  const entries = isJavaSerialized
+    ? readJavaSerializedStringMap(fileBytes)
+    : readSharedPreferencesXml(new TextDecoder().decode(fileBytes));
+
+  if (entries.has(MASTER_KEY_NAME)) {
+    return processEncryptedFreeOtpBackup(entries, requestPassword);
+  }
+
+  // The original format stores one JSON token (with its secret) per entry.
+  const tokens: FreeOtpToken[] = [];
+  for (const [name, value] of entries) {
+    if (name === TOKEN_ORDER_NAME) continue;
+    tokens.push(JSON.parse(value));
+  }
+  return mapTokensWithSecrets(tokens);
+}
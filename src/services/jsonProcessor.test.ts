@@ -1,6 +1,7 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { processJson } from "./jsonProcessor";
 import { encode } from "thirty-two";
+import { readTestText } from "../../tests/testHelpers";
 
 const mockLastPassJson = `
 {
@@ -54,6 +55,42 @@ const mockOwnJsonExport = `
 ]
 `;
 
+const mockAegisVault = `
+{
+  "version": 1,
+  "header": { "slots": null, "params": null },
+  "db": {
+    "version": 2,
+    "entries": [
+      {
+        "type": "totp",
+        "uuid": "3ae6f1ad-2d4a-4b1e-a5d1-2ab7d7c8e3f1",
+        "name": "test@example.com",
+        "issuer": "TestService",
+        "note": "",
+        "favorite": false,
+        "icon": null,
+        "info": { "secret": "JBSWY3DPEHPK3PXP", "algo": "SHA256", "digits": 8, "period": 60 }
+      },
+      {
+        "type": "hotp",
+        "uuid": "0c5b0a3e-5f1f-4a0e-9e62-8a0c4a3f6e21",
+        "name": "counter-user",
+        "issuer": "CounterService",
+        "info": { "secret": "MFRGGZDFMZTWQ2LK", "algo": "SHA1", "digits": 6, "counter": 7 }
+      },
+      {
+        "type": "motp",
+        "uuid": "9b0f7f2c-0c55-4d44-9c3b-3f1c2f0c1d11",
+        "name": "unsupported",
+        "issuer": "Legacy",
+        "info": { "secret": "MFRGGZDFMZTWQ2LK", "algo": "MD5", "digits": 6, "period": 10 }
+      }
+    ]
+  }
+}
+`;
+
 describe("JSON Processor", () => {
   describe("LastPass JSON File Import", () => {
     it("should correctly parse a valid LastPass JSON export file", async () => {
@@ -86,11 +123,72 @@ describe("JSON Processor", () => {
     });
   });
 
+  describe("Aegis Vault Import", () => {
+    it("should correctly parse a plaintext Aegis vault", async () => {
+      const otpParameters = await processJson(mockAegisVault);
+
+      // The mOTP entry is not supported and should be skipped.
+      expect(otpParameters).toHaveLength(2);
+
+      const totp = otpParameters[0];
+      expect(totp.name).toBe("test@example.com");
+      expect(totp.issuer).toBe("TestService");
+      expect(totp.algorithm).toBe(2); // SHA256
+      expect(totp.digits).toBe(2); // 8 digits
+      expect(totp.type).toBe(2); // TOTP
+      expect(totp.period).toBe(60);
+      expect(encode(totp.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+      const hotp = otpParameters[1];
+      expect(hotp.type).toBe(1); // HOTP
+      expect(hotp.counter).toBe(7);
+    });
+
+    it("should decrypt a password-protected Aegis vault", async () => {
+      const requestPassword = vi.fn().mockResolvedValue("test");
+      const otpParameters = await processJson(
+        readTestText("aegis_encrypted.json"),
+        requestPassword
+      );
+
+      expect(requestPassword).toHaveBeenCalledTimes(1);
+      expect(otpParameters).toHaveLength(2);
+      expect(otpParameters[0].issuer).toBe("TestService");
+      expect(encode(otpParameters[0].secret).toString()).toBe(
+        "JBSWY3DPEHPK3PXP"
+      );
+      expect(otpParameters[1].type).toBe(1); // HOTP
+      expect(otpParameters[1].counter).toBe(3);
+    });
+
+    it("should ask again after an incorrect password", async () => {
+      const requestPassword = vi
+        .fn()
+        .mockResolvedValueOnce("wrong")
+        .mockResolvedValueOnce("test");
+      const otpParameters = await processJson(
+        readTestText("aegis_encrypted.json"),
+        requestPassword
+      );
+
+      expect(requestPassword).toHaveBeenCalledTimes(2);
+      expect(requestPassword.mock.calls[1][0]).toContain("Incorrect password");
+      expect(otpParameters).toHaveLength(2);
+    });
+
+    it("should fail when the password prompt is cancelled", async () => {
+      const requestPassword = vi.fn().mockResolvedValue(null);
+      await expect(
+        processJson(readTestText("aegis_encrypted.json"), requestPassword)
+      ).rejects.toThrow("Password entry cancelled.");
+    });
+  });
+
   describe("Error Handling", () => {
     it("should throw an error for an unsupported JSON structure", async () => {
       const unsupportedJson = `{"foo": "bar"}`;
       await expect(processJson(unsupportedJson)).rejects.toThrow(
-        "Invalid JSON format: Expected an array of OTP accounts or a LastPass export object."
+        "Unsupported JSON file: not a recognised OTP export. Supported formats are this tool's JSON export, LastPass Authenticator, Aegis, 2FAS, andOTP, FreeOTP+, Bitwarden, Ente Auth, Authenticator Pro, Proton Pass and SteamDesktopAuthenticator."
       );
     });
   });
@@ -1,7 +1,11 @@
 /**
  * This module is responsible for processing JSON files. It can intelligently
  * detect and parse different JSON formats, including the application's own
- * export format and the format used by LastPass Authenticator's file export.
+ * export format, the format used by LastPass Authenticator's file export,
+ * Aegis Authenticator vault exports, 2FAS Authenticator backups, andOTP
+ * backups, FreeOTP+ exports, Bitwarden vault exports (plain or
+ * password-protected), encrypted Ente Auth exports, Authenticator Pro
+ * backups, Proton Pass exports and SteamDesktopAuthenticator `.maFile` files.
  * It acts as a dispatcher, routing the parsed JSON data to the appropriate
  * format-specific processor.
  */
@@ -10,9 +14,37 @@ import {
   LastPassFileAccount,
   MigrationOtpParameter,
   OtpData,
+  PasswordProvider,
 } from "../types";
 import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
 import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { toLastPassMetadata } from "./lastPassFormatter";
+import { isAegisVault, processAegisVault } from "./aegisProcessor";
+import { isTwoFasBackup, processTwoFasBackup } from "./twoFasProcessor";
+import { isAndOtpBackup, processAndOtpBackup } from "./andOtpProcessor";
+import {
+  isFreeOtpPlusBackup,
+  processFreeOtpPlusBackup,
+} from "./freeOtpProcessor";
+import {
+  isBitwardenEncryptedExport,
+  isBitwardenExport,
+  processBitwardenEncryptedExport,
+  processBitwardenExport,
+} from "./bitwardenProcessor";
+import {
+  isEnteEncryptedExport,
+  processEnteEncryptedExport,
+} from "./enteProcessor";
+import {
+  isAuthenticatorProBackup,
+  processAuthenticatorProBackup,
+} from "./authenticatorProProcessor";
+import {
+  isProtonPassExport,
+  processProtonPassExport,
+} from "./protonPassProcessor";
+import { isSteamMaFile, processSteamMaFile } from "./steamProcessor";
 import { logger } from "./logger";
 
 // --- Type Guards ---
@@ -66,7 +98,8 @@ async function processOtpDataArray(
 }
 
 /**
- * Processes a LastPassFilePayload object.
+ * Processes a LastPassFilePayload object. Folders, favourites, account IDs
+ * and creation times are kept for exports back to LastPass.
  * @param payload The LastPassFilePayload object.
  * @returns An array of OTP parameters.
  */
@@ -82,18 +115,37 @@ function processLastPassPayload(
       digits: lpAccount.digits,
       type: lpAccount.timeStep ? "totp" : "hotp",
       counter: lpAccount.counter,
+      period: lpAccount.timeStep,
+    };
+    return {
+      ...mapToMigrationOtpParameter(rawAccount),
+      lastPass: toLastPassMetadata(
+        {
+          accountId: lpAccount.accountID,
+          // The file records creation times in seconds.
+          createdAt:
+            lpAccount.creationTimestamp !== undefined
+              ? lpAccount.creationTimestamp * 1000
+              : undefined,
+          isFavorite: lpAccount.isFavorite,
+          folderData: lpAccount.folderData,
+        },
+        payload.folders
+      ),
     };
-    return mapToMigrationOtpParameter(rawAccount);
   });
 }
 
 /**
  * Processes a JSON string, dispatching to the correct parser based on its structure.
  * @param jsonString The raw JSON string content from a file.
+ * @param requestPassword An optional callback used to ask the user for the
+ * password of an encrypted export.
  * @returns A promise that resolves with an array of OTP parameters.
  */
 export async function processJson(
-  jsonString: string
+  jsonString: string,
+  requestPassword?: PasswordProvider
 ): Promise<MigrationOtpParameter[]> {
   const data: unknown = JSON.parse(jsonString);
 
@@ -101,11 +153,51 @@ export async function processJson(
     return processOtpDataArray(data);
   }
 
+  if (isAndOtpBackup(data)) {
+    return processAndOtpBackup(data);
+  }
+
   if (isLastPassFilePayload(data)) {
     return processLastPassPayload(data);
   }
 
+  if (isAegisVault(data)) {
+    return processAegisVault(data, requestPassword);
+  }
+
+  if (isTwoFasBackup(data)) {
+    return processTwoFasBackup(data, requestPassword);
+  }
+
+  if (isFreeOtpPlusBackup(data)) {
+    return processFreeOtpPlusBackup(data);
+  }
+
+  if (isBitwardenExport(data)) {
+    return processBitwardenExport(data);
+  }
+
+  if (isBitwardenEncryptedExport(data)) {
+    return processBitwardenEncryptedExport(data, requestPassword);
+  }
+
+  if (isEnteEncryptedExport(data)) {
+    return processEnteEncryptedExport(data, requestPassword);
+  }
+
+  if (isAuthenticatorProBackup(data)) {
+    return processAuthenticatorProBackup(data);
+  }
+
+  if (isProtonPassExport(data)) {
+    return processProtonPassExport(data);
+  }
+
+  if (isSteamMaFile(data)) {
+    return processSteamMaFile(data);
+  }
+
   throw new Error(
-    "Invalid JSON format: Expected an array of OTP accounts or a LastPass export object."
+    "Unsupported JSON file: not a recognised OTP export. Supported formats are this tool's JSON export, LastPass Authenticator, Aegis, 2FAS, andOTP, FreeOTP+, Bitwarden, Ente Auth, Authenticator Pro, Proton Pass and SteamDesktopAuthenticator."
   );
 }
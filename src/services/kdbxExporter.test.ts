@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { MigrationOtpParameter } from "../types";
+import { exportToKdbx } from "./kdbxExporter";
+import { processKdbx } from "./kdbxProcessor";
+
+// A non-ASCII name checks that the encrypted XML keeps its UTF-8 encoding.
+const mockOtps: MigrationOtpParameter[] = [
+  {
+    secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+    name: "zoë@example.com",
+    issuer: "Vault",
+    algorithm: 2, // SHA256
+    digits: 2, // 8 digits
+    type: 2, // TOTP
+    counter: 0,
+    period: 60,
+  },
+  {
+    secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+    name: "counter-account",
+    issuer: "CounterIssuer",
+    algorithm: 1, // SHA1
+    digits: 1, // 6 digits
+    type: 1, // HOTP
+    counter: 42,
+  },
+];
+
+// Small Argon2id parameters keep the tests fast.
+const testArgon2 = { iterations: 1, memory: 1024 * 1024, parallelism: 1 };
+
+describe("KeePass KDBX Export", () => {
+  it.each(["aes", "chacha20"] as const)(
+    "should write a %s database that can be imported again",
+    async (cipher) => {
+      const kdbx = await exportToKdbx(mockOtps, "test", cipher, testArgon2);
+
+      const requestCredentials = vi
+        .fn()
+        .mockResolvedValueOnce({ password: "wrong", keyFile: null })
+        .mockResolvedValueOnce({ password: "test", keyFile: null });
+      const imported = await processKdbx(kdbx, requestCredentials);
+
+      expect(requestCredentials).toHaveBeenCalledTimes(2);
+      expect(imported).toEqual(
+        mockOtps.map((otp) => expect.objectContaining(otp))
+      );
+    }
+  );
+
+  it("should write a KDBX 4 file without secrets in plaintext", async () => {
+    const kdbx = await exportToKdbx(mockOtps, "test", "aes", testArgon2);
+    const view = new DataView(kdbx.buffer, kdbx.byteOffset);
+    expect(view.getUint32(0, true)).toBe(0x9aa2d903);
+    expect(view.getUint32(4, true)).toBe(0xb54bfb67);
+    expect(view.getUint16(10, true)).toBe(4);
+
+    const text = new TextDecoder("latin1").decode(kdbx);
+    expect(text).not.toContain("otpauth");
+    expect(text).not.toContain("JBSWY3DPEHPK3PXP");
+    expect(text).not.toContain("counter-account");
+  });
+});
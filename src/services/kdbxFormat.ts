@@ -0,0 +1,466 @@
+/**
+ * This module contains the building blocks of the KeePass KDBX 4 file format:
+ * its constants, the "variant dictionary" used for KDF parameters, composite
+ * key and key file handling, key derivation, HMAC block keys and the stream
+ * ciphers used for the payload and for protected values.
+ *
+ * See https://keepass.info/help/kb/kdbx_4.html for the format specification.
+ */
+import { argon2dAsync, argon2idAsync } from "@noble/hashes/argon2";
+import { chacha20 } from "@noble/ciphers/chacha";
+import { salsa20 } from "@noble/ciphers/salsa";
+import { UnlockCredentials } from "../types";
+import { base64ToUint8Array } from "./protobufProcessor";
+import {
+  aesCbcEncrypt,
+  concatBytes,
+  hexToUint8Array,
+  sha256,
+  sha512,
+  uint8ArrayToHex,
+} from "./encryption";
+
+// --- File Format Constants ---
+
+export const KDBX_SIGNATURE_1 = 0x9aa2d903;
+export const KDBX_SIGNATURE_2 = 0xb54bfb67;
+export const KDBX_MAJOR_VERSION = 4;
+
+/** The IDs of the fields in the outer (unencrypted) header. */
+export const KDBX_HEADER_FIELD = {
+  END: 0,
+  CIPHER_ID: 2,
+  COMPRESSION_FLAGS: 3,
+  MASTER_SEED: 4,
+  ENCRYPTION_IV: 7,
+  KDF_PARAMETERS: 11,
+  PUBLIC_CUSTOM_DATA: 12,
+};
+
+/** The IDs of the fields in the inner (encrypted) header. */
+export const KDBX_INNER_HEADER_FIELD = {
+  END: 0,
+  INNER_RANDOM_STREAM_ID: 1,
+  INNER_RANDOM_STREAM_KEY: 2,
+  BINARY: 3,
+};
+
+/** The UUIDs (as hex) of the supported payload ciphers. */
+export const KDBX_CIPHER = {
+  AES256: "31c1f2e6bf714350be5805216afc5aff",
+  CHACHA20: "d6038a2b8b6f4cb5a524339a31dbb59a",
+};
+
+/** The UUIDs (as hex) of the supported key derivation functions. */
+export const KDBX_KDF = {
+  AES: "c9d9f39a628a4460bf740d08c18a4fea",
+  ARGON2D: "ef636ddf8c29444b91f7a9a403e30a0c",
+  ARGON2ID: "9e298b1956db4773b23dfc3ec6f0a1e6",
+};
+
+/** The IDs of the stream ciphers used to protect values in the XML. */
+export const KDBX_INNER_STREAM = {
+  NONE: 0,
+  SALSA20: 2,
+  CHACHA20: 3,
+};
+
+/** The fixed nonce KeePass uses for the Salsa20 inner stream. */
+const SALSA20_INNER_STREAM_NONCE = hexToUint8Array("e830094b97205d2a");
+
+/** The value types of a KDBX variant dictionary. */
+export const VARIANT_TYPE = {
+  END: 0x00,
+  UINT32: 0x04,
+  UINT64: 0x05,
+  BOOL: 0x08,
+  INT32: 0x0c,
+  INT64: 0x0d,
+  STRING: 0x18,
+  BYTES: 0x42,
+};
+const VARIANT_DICTIONARY_VERSION = 0x0100;
+
+/** A value stored in a KDBX variant dictionary. */
+export type VariantValue = number | boolean | string | Uint8Array;
+
+/** A typed entry to be written to a KDBX variant dictionary. */
+export interface VariantEntry {
+  key: string;
+  type: number;
+  value: VariantValue;
+}
+
+// --- Variant Dictionary ---
+
+/**
+ * Reads a KDBX variant dictionary, such as the KDF parameters.
+ * @param bytes The serialized dictionary.
+ * @returns The dictionary's values by key. 64-bit integers are returned as
+ * numbers, which is precise enough for KDF parameters.
+ */
+export function readVariantDictionary(
+  bytes: Uint8Array
+): Map<string, VariantValue> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const dictionary = new Map<string, VariantValue>();
+
+  if (view.getUint16(0, true) >> 8 !== VARIANT_DICTIONARY_VERSION >> 8) {
+    throw new Error("Unsupported KDBX variant dictionary version.");
+  }
+
+  let offset = 2;
+  for (;;) {
+    const type = view.getUint8(offset);
+    offset += 1;
+    if (type === VARIANT_TYPE.END) break;
+
+    const keyLength = view.getInt32(offset, true);
+    const key = decoder.decode(
+      bytes.subarray(offset + 4, offset + 4 + keyLength)
+    );
+    offset += 4 + keyLength;
+    const valueLength = view.getInt32(offset, true);
+    offset += 4;
+
+    switch (type) {
+      case VARIANT_TYPE.UINT32:
+        dictionary.set(key, view.getUint32(offset, true));
+        break;
+      case VARIANT_TYPE.INT32:
+        dictionary.set(key, view.getInt32(offset, true));
+        break;
+      case VARIANT_TYPE.UINT64:
+      case VARIANT_TYPE.INT64:
+        dictionary.set(key, readUint64(view, offset));
+        break;
+      case VARIANT_TYPE.BOOL:
+        dictionary.set(key, view.getUint8(offset) !== 0);
+        break;
+      case VARIANT_TYPE.STRING:
+        dictionary.set(
+          key,
+          decoder.decode(bytes.subarray(offset, offset + valueLength))
+        );
+        break;
+      default:
+        dictionary.set(key, bytes.slice(offset, offset + valueLength));
+    }
+    offset += valueLength;
+  }
+  return dictionary;
+}
+
+/**
+ * Serializes entries into a KDBX variant dictionary.
+ * @param entries The typed entries to write.
+ * @returns The serialized dictionary.
+ */
+export function writeVariantDictionary(entries: VariantEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [uint16(VARIANT_DICTIONARY_VERSION)];
+
+  for (const { key, type, value } of entries) {
+    let valueBytes: Uint8Array;
+    switch (type) {
+      case VARIANT_TYPE.UINT32:
+      case VARIANT_TYPE.INT32:
+        valueBytes = uint32(value as number);
+        break;
+      case VARIANT_TYPE.UINT64:
+      case VARIANT_TYPE.INT64:
+        valueBytes = uint64(value as number);
+        break;
+      case VARIANT_TYPE.BOOL:
+        valueBytes = new Uint8Array([value ? 1 : 0]);
+        break;
+      case VARIANT_TYPE.STRING:
+        valueBytes = encoder.encode(value as string);
+        break;
+      default:
+        valueBytes = value as Uint8Array;
+    }
+    const keyBytes = encoder.encode(key);
+    parts.push(
+      new Uint8Array([type]),
+      uint32(keyBytes.length),
+      keyBytes,
+      uint32(valueBytes.length),
+      valueBytes
+    );
+  }
+  parts.push(new Uint8Array([VARIANT_TYPE.END]));
+  return concatBytes(...parts);
+}
+
+// --- Little-Endian Helpers ---
+
+/**
+ * Encodes a number as a little-endian 16-bit integer.
+ * @param value The number to encode.
+ * @returns The encoded bytes.
+ */
+export function uint16(value: number): Uint8Array {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value, true);
+  return bytes;
+}
+
+/**
+ * Encodes a number as a little-endian 32-bit integer.
+ * @param value The number to encode.
+ * @returns The encoded bytes.
+ */
+export function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+/**
+ * Encodes a non-negative number as a little-endian 64-bit integer.
+ * @param value The number to encode.
+ * @returns The encoded bytes.
+ */
+export function uint64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, value >>> 0, true);
+  view.setUint32(4, Math.floor(value / 2 ** 32), true);
+  return bytes;
+}
+
+/**
+ * Reads a little-endian 64-bit unsigned integer as a number. Values above
+ * 2^53 lose precision, which is acceptable for sizes and KDF parameters.
+ * @param view The view to read from.
+ * @param offset The offset of the integer.
+ * @returns The integer's value.
+ */
+export function readUint64(view: DataView, offset: number): number {
+  return (
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+  );
+}
+
+// --- Composite Key ---
+
+/**
+ * Extracts the key from a KeePass key file. Key files can be XML files
+ * (versions 1.0 and 2.0), 32 raw bytes, 64 hex characters, or any other file,
+ * in which case the file's SHA-256 hash is used.
+ * @param keyFile The contents of the key file.
+ * @returns A promise that resolves with the 32-byte key.
+ */
+export async function readKeyFile(keyFile: Uint8Array): Promise<Uint8Array> {
+  const text = new TextDecoder().decode(keyFile).trim();
+
+  if (text.startsWith("<?xml") || text.startsWith("<KeyFile")) {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    const version = doc.querySelector("KeyFile > Meta > Version")?.textContent;
+    const data = doc.querySelector("KeyFile > Key > Data");
+    if (data?.textContent) {
+      if (version?.startsWith("2.")) {
+        const key = hexToUint8Array(data.textContent.replace(/\s/g, ""));
+        // Version 2.0 files store the first 4 bytes of the key's hash.
+        const hash = data.getAttribute("Hash");
+        const actualHash = uint8ArrayToHex((await sha256(key)).slice(0, 4));
+        if (hash && hash.toLowerCase() !== actualHash) {
+          throw new Error(
+            "The key file is corrupted: its checksum is invalid."
+          );
+        }
+        return key;
+      }
+      return base64ToUint8Array(data.textContent.trim());
+    }
+  }
+
+  if (keyFile.length === 32) {
+    return keyFile;
+  }
+  if (keyFile.length === 64 && /^[0-9a-f]{64}$/i.test(text)) {
+    return hexToUint8Array(text);
+  }
+  return sha256(keyFile);
+}
+
+/**
+ * Computes the composite key of a database from its password and key file.
+ * @param credentials The password and optional key file.
+ * @returns A promise that resolves with the 32-byte composite key.
+ */
+export async function computeCompositeKey(
+  credentials: UnlockCredentials
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  // An empty password is only left out when a key file is used instead.
+  if (credentials.password || !credentials.keyFile) {
+    parts.push(await sha256(new TextEncoder().encode(credentials.password)));
+  }
+  if (credentials.keyFile) {
+    parts.push(await readKeyFile(credentials.keyFile));
+  }
+  return sha256(concatBytes(...parts));
+}
+
+// --- Key Derivation ---
+
+/**
+ * Applies the AES-KDF: the key is encrypted with AES-256-ECB `rounds` times,
+ * then hashed. Repeatedly encrypting a block is equivalent to AES-CBC
+ * encrypting zero blocks with the block as the IV, which lets WebCrypto do
+ * the rounds in large batches.
+ * @param compositeKey The 32-byte composite key.
+ * @param seed The 32-byte AES key used for the transformation.
+ * @param rounds The number of encryption rounds.
+ * @returns A promise that resolves with the transformed key.
+ */
+async function aesKdf(
+  compositeKey: Uint8Array,
+  seed: Uint8Array,
+  rounds: number
+): Promise<Uint8Array> {
+  const MAX_BLOCKS_PER_BATCH = 1 << 20;
+  const transformBlock = async (block: Uint8Array) => {
+    let current = block;
+    for (let remaining = rounds; remaining > 0;) {
+      const blocks = Math.min(remaining, MAX_BLOCKS_PER_BATCH);
+      const encrypted = await aesCbcEncrypt(
+        seed,
+        current,
+        new Uint8Array(blocks * 16)
+      );
+      // The last block is padding; the one before it holds the result.
+      current = encrypted.slice((blocks - 1) * 16, blocks * 16);
+      remaining -= blocks;
+    }
+    return current;
+  };
+
+  const [left, right] = await Promise.all([
+    transformBlock(compositeKey.slice(0, 16)),
+    transformBlock(compositeKey.slice(16, 32)),
+  ]);
+  return sha256(concatBytes(left, right));
+}
+
+/**
+ * Derives the transformed key from the composite key, using the KDF
+ * described by the database's KDF parameters.
+ * @param compositeKey The composite key.
+ * @param kdfParameters The KDF parameters from the outer header.
+ * @returns A promise that resolves with the 32-byte transformed key.
+ */
+export async function transformCompositeKey(
+  compositeKey: Uint8Array,
+  kdfParameters: Map<string, VariantValue>
+): Promise<Uint8Array> {
+  const kdfUuid = uint8ArrayToHex(kdfParameters.get("$UUID") as Uint8Array);
+
+  if (kdfUuid === KDBX_KDF.AES) {
+    return aesKdf(
+      compositeKey,
+      kdfParameters.get("S") as Uint8Array,
+      kdfParameters.get("R") as number
+    );
+  }
+
+  if (kdfUuid === KDBX_KDF.ARGON2D || kdfUuid === KDBX_KDF.ARGON2ID) {
+    const argon2 = kdfUuid === KDBX_KDF.ARGON2D ? argon2dAsync : argon2idAsync;
+    return argon2(compositeKey, kdfParameters.get("S") as Uint8Array, {
+      t: kdfParameters.get("I") as number,
+      m: (kdfParameters.get("M") as number) / 1024, // Bytes to KiB
+      p: kdfParameters.get("P") as number,
+      version: kdfParameters.get("V") as number | undefined,
+      key: kdfParameters.get("K") as Uint8Array | undefined,
+      personalization: kdfParameters.get("A") as Uint8Array | undefined,
+      dkLen: 32,
+    });
+  }
+
+  throw new Error("Unsupported KeePass key derivation function.");
+}
+
+/**
+ * Derives the payload encryption key and the HMAC base key from the master
+ * seed and the transformed key.
+ * @param masterSeed The master seed from the outer header.
+ * @param transformedKey The transformed composite key.
+ * @returns A promise that resolves with both keys.
+ */
+export async function deriveKdbxKeys(
+  masterSeed: Uint8Array,
+  transformedKey: Uint8Array
+): Promise<{ encryptionKey: Uint8Array; hmacKey: Uint8Array }> {
+  return {
+    encryptionKey: await sha256(concatBytes(masterSeed, transformedKey)),
+    hmacKey: await sha512(
+      concatBytes(masterSeed, transformedKey, new Uint8Array([1]))
+    ),
+  };
+}
+
+/** The block index used for the header's HMAC: the maximum 64-bit value. */
+export const KDBX_HEADER_BLOCK_INDEX = new Uint8Array(8).fill(0xff);
+
+/**
+ * Computes the HMAC key of a payload block.
+ * @param hmacKey The HMAC base key.
+ * @param blockIndex The little-endian 64-bit index of the block.
+ * @returns A promise that resolves with the 64-byte block key.
+ */
+export function getBlockHmacKey(
+  hmacKey: Uint8Array,
+  blockIndex: Uint8Array
+): Promise<Uint8Array> {
+  return sha512(concatBytes(blockIndex, hmacKey));
+}
+
+// --- Stream Ciphers ---
+
+/**
+ * Applies the ChaCha20 stream cipher (with a 96-bit nonce) to some data. As
+ * a stream cipher, encryption and decryption are the same operation.
+ * @param key The 32-byte key.
+ * @param nonce The 12-byte nonce.
+ * @param data The data to encrypt or decrypt.
+ * @returns The transformed data.
+ */
+export function chacha20Xor(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  data: Uint8Array
+): Uint8Array {
+  return chacha20(key, nonce, data);
+}
+
+/**
+ * Creates the keystream cipher that protects values in the XML document.
+ * Protected values are encrypted one after the other, in document order,
+ * with a single continuous keystream.
+ * @param streamId The inner random stream ID from the inner header.
+ * @param streamKey The inner random stream key from the inner header.
+ * @returns A promise that resolves with a function that encrypts or decrypts
+ * the concatenation of all protected values.
+ */
+export async function createInnerStreamCipher(
+  streamId: number,
+  streamKey: Uint8Array
+): Promise<(data: Uint8Array) => Uint8Array> {
+  switch (streamId) {
+    case KDBX_INNER_STREAM.CHACHA20: {
+      const hash = await sha512(streamKey);
+      return (data) => chacha20(hash.slice(0, 32), hash.slice(32, 44), data);
+    }
+    case KDBX_INNER_STREAM.SALSA20: {
+      const key = await sha256(streamKey);
+      return (data) => salsa20(key, SALSA20_INNER_STREAM_NONCE, data);
+    }
+    case KDBX_INNER_STREAM.NONE:
+      return (data) => data;
+    default:
+      throw new Error("Unsupported KeePass inner stream cipher.");
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { MigrationOtpParameter } from "../types";
+import { processKdbx } from "./kdbxProcessor";
+import { readTestData } from "../../tests/testHelpers";
+
+/**
+ * Checks the OTPs of the test databases, which both hold the same entries.
+ * The deleted entry and the old secret in the GitHub entry's history must
+ * not be imported.
+ */
+function expectTestDatabaseOtps(otpParameters: MigrationOtpParameter[]) {
+  expect(otpParameters).toHaveLength(4);
+  const [github, legacy, keepass, counter] = otpParameters;
+
+  expect(github.name).toBe("octocat");
+  expect(github.issuer).toBe("GitHub");
+  expect(encode(github.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+  expect(legacy.name).toBe("alice");
+  expect(legacy.issuer).toBe("Legacy");
+  expect(legacy.digits).toBe(2); // 8 digits
+  expect(legacy.period).toBe(60);
+  expect(encode(legacy.secret).toString()).toBe(
+    "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+  );
+
+  expect(keepass.name).toBe("bob");
+  expect(keepass.issuer).toBe("KeePass");
+  expect(keepass.algorithm).toBe(2); // SHA256
+  expect(keepass.period).toBe(45);
+  expect(encode(keepass.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+  expect(counter.name).toBe("carol");
+  expect(counter.type).toBe(1); // HOTP
+  expect(counter.counter).toBe(3);
+  expect(encode(counter.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+}
+
+describe("KeePass KDBX Import", () => {
+  it("should decrypt an Argon2id/AES-256 database with a password", async () => {
+    const requestCredentials = vi
+      .fn()
+      .mockResolvedValueOnce({ password: "wrong", keyFile: null })
+      .mockResolvedValueOnce({ password: "test", keyFile: null });
+    const otpParameters = await processKdbx(
+      readTestData("keepass_argon2id_aes.kdbx"),
+      requestCredentials
+    );
+
+    expect(requestCredentials).toHaveBeenCalledTimes(2);
+    expect(requestCredentials.mock.calls[1][0]).toMatch(/^Incorrect password/);
+    expectTestDatabaseOtps(otpParameters);
+  });
+
+  it("should decrypt an AES-KDF/ChaCha20 database with a key file", async () => {
+    const requestCredentials = vi.fn().mockResolvedValue({
+      password: "",
+      keyFile: readTestData("keepass_keyfile.keyx"),
+    });
+    const otpParameters = await processKdbx(
+      readTestData("keepass_aeskdf_chacha20.kdbx"),
+      requestCredentials
+    );
+
+    expect(requestCredentials).toHaveBeenCalledTimes(1);
+    expectTestDatabaseOtps(otpParameters);
+  });
+
+  it("should reject a file that is not a KeePass database", async () => {
+    await expect(
+      processKdbx(readTestData("otp_accounts.json.aes"), vi.fn())
+    ).rejects.toThrow(/Invalid KeePass file/);
+  });
+});
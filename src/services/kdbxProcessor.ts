@@ -0,0 +1,486 @@
+/**
+ * This module handles importing KeePass databases (`.kdbx`, format version 4,
+ * as written by KeePass 2.35+ and KeePassXC). The database is decrypted
+ * locally with the master password and/or key file, and OTP secrets are read
+ * from each entry's fields:
+ *
+ * - `otp`, as written by KeePassXC (an otpauth URI, or the legacy
+ *   "key=...&step=...&size=..." format).
+ * - `TimeOtp-*` and `HmacOtp-*`, as written by KeePass 2's built-in OTP
+ *   support.
+ */
+import pako from "pako";
+import { decode as base32Decode, encode as base32Encode } from "thirty-two";
+import {
+  CredentialsProvider,
+  MigrationOtpParameter,
+  UnlockCredentials,
+} from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { base64ToUint8Array } from "./protobufProcessor";
+import {
+  aesCbcDecrypt,
+  bytesEqual,
+  concatBytes,
+  decryptWithPassword,
+  hexToUint8Array,
+  hmacSha256,
+  sha256,
+  uint8ArrayToHex,
+} from "./encryption";
+import {
+  chacha20Xor,
+  computeCompositeKey,
+  createInnerStreamCipher,
+  deriveKdbxKeys,
+  getBlockHmacKey,
+  KDBX_CIPHER,
+  KDBX_HEADER_BLOCK_INDEX,
+  KDBX_HEADER_FIELD,
+  KDBX_INNER_HEADER_FIELD,
+  KDBX_MAJOR_VERSION,
+  KDBX_SIGNATURE_1,
+  KDBX_SIGNATURE_2,
+  readVariantDictionary,
+  transformCompositeKey,
+  uint32,
+  uint64,
+  VariantValue,
+} from "./kdbxFormat";
+import { STEAM_DIGITS } from "./steamProcessor";
+import { logger } from "./logger";
+
+/** The parsed outer header of a KDBX 4 file. */
+interface KdbxHeader {
+  cipherId: string;
+  compressed: boolean;
+  masterSeed: Uint8Array;
+  encryptionIv: Uint8Array;
+  kdfParameters: Map<string, VariantValue>;
+  /** The raw header bytes, which are authenticated by the header HMAC. */
+  bytes: Uint8Array;
+}
+
+/** The OTP hash algorithm names used by KeePass and KeePassXC. */
+const KEEPASS_ALGORITHM_MAP: { [name: string]: string } = {
+  "HMAC-SHA-1": "SHA1",
+  "HMAC-SHA-256": "SHA256",
+  "HMAC-SHA-512": "SHA512",
+  SHA1: "SHA1",
+  SHA256: "SHA256",
+  SHA512: "SHA512",
+};
+
+// --- Binary Format ---
+
+/**
+ * Reads the outer header of a KDBX 4 file.
+ * @param bytes The contents of the database file.
+ * @returns The parsed header.
+ */
+function readKdbxHeader(bytes: Uint8Array): KdbxHeader {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (
+    bytes.length < 12 ||
+    view.getUint32(0, true) !== KDBX_SIGNATURE_1 ||
+    view.getUint32(4, true) !== KDBX_SIGNATURE_2
+  ) {
+    throw new Error("Invalid KeePass file: the file signature is incorrect.");
+  }
+  const majorVersion = view.getUint16(10, true);
+  if (majorVersion !== KDBX_MAJOR_VERSION) {
+    throw new Error(
+      `Unsupported KeePass database version ${majorVersion}. Please save the database in the KDBX 4 format.`
+    );
+  }
+
+  const fields = new Map<number, Uint8Array>();
+  let offset = 12;
+  for (;;) {
+    const id = view.getUint8(offset);
+    const size = view.getUint32(offset + 1, true);
+    fields.set(id, bytes.slice(offset + 5, offset + 5 + size));
+    offset += 5 + size;
+    if (id === KDBX_HEADER_FIELD.END) break;
+  }
+
+  const requireField = (id: number) => {
+    const field = fields.get(id);
+    if (!field) throw new Error("Invalid KeePass file: incomplete header.");
+    return field;
+  };
+  return {
+    cipherId: uint8ArrayToHex(requireField(KDBX_HEADER_FIELD.CIPHER_ID)),
+    compressed:
+      new DataView(
+        requireField(KDBX_HEADER_FIELD.COMPRESSION_FLAGS).buffer
+      ).getUint32(0, true) === 1,
+    masterSeed: requireField(KDBX_HEADER_FIELD.MASTER_SEED),
+    encryptionIv: requireField(KDBX_HEADER_FIELD.ENCRYPTION_IV),
+    kdfParameters: readVariantDictionary(
+      requireField(KDBX_HEADER_FIELD.KDF_PARAMETERS)
+    ),
+    bytes: bytes.slice(0, offset),
+  };
+}
+
+/**
+ * Reads and authenticates the HMAC-protected payload blocks that follow the
+ * header.
+ * @param bytes The contents of the database file.
+ * @param offset The offset of the first block.
+ * @param hmacKey The HMAC base key.
+ * @returns A promise that resolves with the concatenated encrypted payload.
+ */
+async function readHmacBlocks(
+  bytes: Uint8Array,
+  offset: number,
+  hmacKey: Uint8Array
+): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blocks: Uint8Array[] = [];
+
+  for (let index = 0; ; index++) {
+    const mac = bytes.subarray(offset, offset + 32);
+    const size = view.getUint32(offset + 32, true);
+    const data = bytes.subarray(offset + 36, offset + 36 + size);
+    offset += 36 + size;
+
+    const blockKey = await getBlockHmacKey(hmacKey, uint64(index));
+    const expectedMac = await hmacSha256(
+      blockKey,
+      concatBytes(uint64(index), uint32(size), data)
+    );
+    if (!bytesEqual(mac, expectedMac)) {
+      throw new Error("The KeePass database is corrupted.");
+    }
+    if (size === 0) break;
+    blocks.push(data);
+  }
+  return concatBytes(...blocks);
+}
+
+/**
+ * Decrypts the payload with the cipher named in the header.
+ * @param header The outer header.
+ * @param key The payload encryption key.
+ * @param data The encrypted payload.
+ * @returns A promise that resolves with the decrypted payload.
+ */
+async function decryptPayload(
+  header: KdbxHeader,
+  key: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  switch (header.cipherId) {
+    case KDBX_CIPHER.AES256: {
+      const decrypted = await aesCbcDecrypt(key, header.encryptionIv, data);
+      if (!decrypted) throw new Error("The KeePass database is corrupted.");
+      return decrypted;
+    }
+    case KDBX_CIPHER.CHACHA20:
+      return chacha20Xor(key, header.encryptionIv, data);
+    default:
+      throw new Error(
+        "Unsupported KeePass cipher. Please use AES-256 or ChaCha20."
+      );
+  }
+}
+
+/**
+ * Reads the inner header at the start of the decrypted payload, and returns
+ * the XML document that follows it.
+ * @param payload The decrypted (and decompressed) payload.
+ * @returns The inner stream settings and the XML content.
+ */
+function readInnerHeader(payload: Uint8Array): {
+  streamId: number;
+  streamKey: Uint8Array;
+  xml: string;
+} {
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  );
+  let streamId = 0;
+  let streamKey = new Uint8Array(0);
+  let offset = 0;
+  for (;;) {
+    const id = view.getUint8(offset);
+    const size = view.getUint32(offset + 1, true);
+    const data = payload.subarray(offset + 5, offset + 5 + size);
+    offset += 5 + size;
+
+    if (id === KDBX_INNER_HEADER_FIELD.END) break;
+    if (id === KDBX_INNER_HEADER_FIELD.INNER_RANDOM_STREAM_ID) {
+      streamId = new DataView(data.slice().buffer).getUint32(0, true);
+    } else if (id === KDBX_INNER_HEADER_FIELD.INNER_RANDOM_STREAM_KEY) {
+      streamKey = data.slice();
+    }
+    // Attachments (BINARY) are not needed.
+  }
+  return {
+    streamId,
+    streamKey,
+    xml: new TextDecoder().decode(payload.subarray(offset)),
+  };
+}
+
+/**
+ * Decrypts the values marked `Protected="True"` in a KeePass XML document, in
+ * place. All protected values, including those in entry histories, must be
+ * processed in document order to keep the keystream aligned.
+ * @param doc The XML document.
+ * @param decrypt The inner stream cipher.
+ */
+function unprotectValues(
+  doc: Document,
+  decrypt: (data: Uint8Array) => Uint8Array
+): void {
+  const elements = Array.from(doc.querySelectorAll('Value[Protected="True"]'));
+  const values = elements.map((el) =>
+    base64ToUint8Array((el.textContent || "").trim())
+  );
+  const plaintext = decrypt(concatBytes(...values));
+
+  const decoder = new TextDecoder();
+  let offset = 0;
+  elements.forEach((el, i) => {
+    const length = values[i].length;
+    el.textContent = decoder.decode(
+      plaintext.subarray(offset, offset + length)
+    );
+    el.removeAttribute("Protected");
+    offset += length;
+  });
+}
+
+/**
+ * Decrypts a KDBX 4 database with the given credentials.
+ * @param bytes The contents of the database file.
+ * @param header The parsed outer header.
+ * @param credentials The password and optional key file.
+ * @returns A promise that resolves with the decrypted XML document, or null
+ * if the credentials are incorrect.
+ */
+async function decryptKdbx(
+  bytes: Uint8Array,
+  header: KdbxHeader,
+  credentials: UnlockCredentials
+): Promise<Document | null> {
+  const compositeKey = await computeCompositeKey(credentials);
+  const transformedKey = await transformCompositeKey(
+    compositeKey,
+    header.kdfParameters
+  );
+  const { encryptionKey, hmacKey } = await deriveKdbxKeys(
+    header.masterSeed,
+    transformedKey
+  );
+
+  // The header HMAC follows the header's SHA-256 hash. A mismatch means the
+  // credentials are wrong.
+  const headerEnd = header.bytes.length;
+  const expectedHash = bytes.subarray(headerEnd, headerEnd + 32);
+  if (!bytesEqual(expectedHash, await sha256(header.bytes))) {
+    throw new Error("The KeePass database is corrupted.");
+  }
+  const headerMac = bytes.subarray(headerEnd + 32, headerEnd + 64);
+  const headerKey = await getBlockHmacKey(hmacKey, KDBX_HEADER_BLOCK_INDEX);
+  if (!bytesEqual(headerMac, await hmacSha256(headerKey, header.bytes))) {
+    return null;
+  }
+
+  const encrypted = await readHmacBlocks(bytes, headerEnd + 64, hmacKey);
+  let payload = await decryptPayload(header, encryptionKey, encrypted);
+  if (header.compressed) {
+    payload = pako.ungzip(payload);
+  }
+
+  const { streamId, streamKey, xml } = readInnerHeader(payload);
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("The KeePass database contains invalid XML.");
+  }
+  unprotectValues(doc, await createInnerStreamCipher(streamId, streamKey));
+  return doc;
+}
+
+// --- Entry Mapping ---
+
+/**
+ * Reads the string fields of a KeePass entry.
+ * @param entry The `Entry` element.
+ * @returns The entry's fields by key.
+ */
+function getEntryFields(entry: Element): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const child of Array.from(entry.children)) {
+    if (child.nodeName !== "String") continue;
+    const key = child.querySelector(":scope > Key")?.textContent;
+    const value = child.querySelector(":scope > Value")?.textContent;
+    if (key) fields.set(key, value || "");
+  }
+  return fields;
+}
+
+/**
+ * Reads a KeePass 2 OTP secret, which may be stored in one of several
+ * encodings (e.g. `TimeOtp-Secret-Base32` or `TimeOtp-Secret-Hex`).
+ * @param fields The entry's fields.
+ * @param prefix The field prefix, "TimeOtp" or "HmacOtp".
+ * @returns The secret bytes, or null if the entry has no such secret.
+ */
+function getKeePassOtpSecret(
+  fields: Map<string, string>,
+  prefix: string
+): Uint8Array | null {
+  const base32 = fields.get(`${prefix}-Secret-Base32`);
+  if (base32) {
+    return new Uint8Array(
+      base32Decode(base32.replace(/\s/g, "").toUpperCase())
+    );
+  }
+  const hex = fields.get(`${prefix}-Secret-Hex`);
+  if (hex) return hexToUint8Array(hex.replace(/\s/g, ""));
+  const base64 = fields.get(`${prefix}-Secret-Base64`);
+  if (base64) return base64ToUint8Array(base64.trim());
+  const utf8 = fields.get(`${prefix}-Secret`);
+  if (utf8) return new TextEncoder().encode(utf8);
+  return null;
+}
+
+/**
+ * Converts the OTP fields of a KeePass entry into OTP parameters.
+ * @param fields The entry's fields.
+ * @returns A promise that resolves with the entry's OTP parameters, if any.
+ */
+async function mapKeePassEntry(
+  fields: Map<string, string>
+): Promise<MigrationOtpParameter[]> {
+  const title = fields.get("Title") || "";
+  const name = fields.get("UserName") || title;
+
+  const otp = fields.get("otp")?.trim();
+  if (otp?.startsWith("otpauth://")) {
+    const otps = await getOtpParametersFromUrl(otp);
+    return otps.map((o) => ({
+      ...o,
+      name: o.name || name,
+      issuer: o.issuer || title,
+    }));
+  }
+  if (otp) {
+    // KeePassXC's legacy format: "key=BASE32&step=30&size=6", with a size
+    // of "S" for Steam Guard codes.
+    const params = new URLSearchParams(otp);
+    const secret = params.get("key");
+    if (!secret) throw new Error("The otp field has no key.");
+    const isSteam = params.get("size") === "S";
+    const rawAccount: RawOtpAccount = {
+      name,
+      issuer: title,
+      secret: secret.replace(/\s/g, "").toUpperCase(),
+      algorithm: params.get("otpHashMode") || "SHA1",
+      digits: isSteam ? STEAM_DIGITS : Number(params.get("size") || 6),
+      type: isSteam ? "steam" : "totp",
+      period: Number(params.get("step") || 30),
+    };
+    return [mapToMigrationOtpParameter(rawAccount)];
+  }
+
+  const totpSecret = getKeePassOtpSecret(fields, "TimeOtp");
+  if (totpSecret) {
+    const algorithm = fields.get("TimeOtp-Algorithm") || "HMAC-SHA-1";
+    return [
+      mapToMigrationOtpParameter({
+        name,
+        issuer: title,
+        secret: base32Encode(totpSecret).toString(),
+        algorithm: KEEPASS_ALGORITHM_MAP[algorithm.toUpperCase()] || algorithm,
+        digits: Number(fields.get("TimeOtp-Length") || 6),
+        type: "totp",
+        period: Number(fields.get("TimeOtp-Period") || 30),
+      }),
+    ];
+  }
+
+  const hotpSecret = getKeePassOtpSecret(fields, "HmacOtp");
+  if (hotpSecret) {
+    return [
+      mapToMigrationOtpParameter({
+        name,
+        issuer: title,
+        secret: base32Encode(hotpSecret).toString(),
+        algorithm: "SHA1",
+        digits: 6,
+        type: "hotp",
+        counter: Number(fields.get("HmacOtp-Counter") || 0),
+      }),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Extracts the OTP parameters from all entries of a KeePass XML document.
+ * Entry histories and the recycle bin are ignored.
+ * @param doc The KeePass XML document, with protected values decrypted.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processKeePassXmlDocument(
+  doc: Document
+): Promise<MigrationOtpParameter[]> {
+  const meta = doc.querySelector("KeePassFile > Meta");
+  const recycleBinEnabled =
+    meta?.querySelector(":scope > RecycleBinEnabled")?.textContent === "True";
+  const recycleBinUuid = recycleBinEnabled
+    ? meta?.querySelector(":scope > RecycleBinUUID")?.textContent
+    : null;
+  const recycleBin = Array.from(doc.querySelectorAll("Group")).find(
+    (group) =>
+      recycleBinUuid &&
+      group.querySelector(":scope > UUID")?.textContent === recycleBinUuid
+  );
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  // Entries in a <History> element are old versions, so only direct children
+  // of groups are read.
+  for (const entry of Array.from(doc.querySelectorAll("Group > Entry"))) {
+    if (recycleBin?.contains(entry)) continue;
+
+    const fields = getEntryFields(entry);
+    try {
+      otpParameters.push(...(await mapKeePassEntry(fields)));
+    } catch (error: any) {
+      logger.warn(
+        `Skipping invalid OTP in KeePass entry: ${fields.get("Title")}`,
+        error
+      );
+    }
+  }
+  return otpParameters;
+}
+
+/**
+ * Processes a KeePass KDBX 4 database.
+ * @param fileBytes The contents of the database file.
+ * @param requestCredentials The callback used to ask the user for the master
+ * password and optional key file.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processKdbx(
+  fileBytes: Uint8Array,
+  requestCredentials?: CredentialsProvider
+): Promise<MigrationOtpParameter[]> {
+  const header = readKdbxHeader(fileBytes);
+  const doc = await decryptWithPassword(
+    requestCredentials,
+    "Enter the master password and/or key file for this KeePass database.",
+    (credentials) => decryptKdbx(fileBytes, header, credentials)
+  );
+  return processKeePassXmlDocument(doc);
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { MigrationOtpParameter } from "../types";
+import { exportToKeePassXcCsv, exportToKeePassXml } from "./keePassExporter";
+import { processKeePassXmlDocument } from "./kdbxProcessor";
+
+// Names with XML and CSV special characters check the escaping of both formats.
+const mockOtps: MigrationOtpParameter[] = [
+  {
+    secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+    name: "alice, work",
+    issuer: "R&D <Lab>",
+    algorithm: 3, // SHA512
+    digits: 2, // 8 digits
+    type: 2, // TOTP
+    counter: 0,
+    period: 45,
+  },
+  {
+    secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+    name: "counter-account",
+    issuer: "CounterIssuer",
+    algorithm: 1, // SHA1
+    digits: 1, // 6 digits
+    type: 1, // HOTP
+    counter: 7,
+  },
+];
+
+describe("KeePass Exporter", () => {
+  it("should export a KeePass XML file that can be imported again", async () => {
+    const xml = exportToKeePassXml(mockOtps);
+    expect(xml).toContain("<Key>TimeOtp-Secret-Base32</Key>");
+    expect(xml).toContain("<Value>HMAC-SHA-512</Value>");
+    expect(xml).toContain("<Value>R&amp;D &lt;Lab&gt;</Value>");
+    expect(xml).toContain("<Key>HmacOtp-Counter</Key><Value>7</Value>");
+
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    const imported = await processKeePassXmlDocument(doc);
+    expect(imported).toEqual(
+      mockOtps.map((otp) => expect.objectContaining(otp))
+    );
+  });
+
+  it("should refuse accounts that KeePass cannot represent", () => {
+    expect(() =>
+      exportToKeePassXml([mockOtps[0], { ...mockOtps[1], type: 3 }])
+    ).toThrow(
+      "KeePass does not support Steam Guard accounts. Deselect the 1 Steam account and try again."
+    );
+    expect(() =>
+      exportToKeePassXcCsv([{ ...mockOtps[0], algorithm: 4 }])
+    ).toThrow(
+      "KeePassXC does not support the MD5 algorithm. Deselect the 1 MD5 account and try again."
+    );
+  });
+
+  it("should export a KeePassXC CSV file with otpauth URLs", () => {
+    const lines = exportToKeePassXcCsv(mockOtps).split("\n");
+    expect(lines[0]).toBe(
+      "Group,Title,Username,Password,URL,Notes,TOTP,Icon,Last Modified,Created"
+    );
+    expect(lines[1]).toMatch(
+      /^OTP Secrets,R&D <Lab>,"alice, work",,,,otpauth:\/\/totp\/alice%2C%20work\?secret=JBSWY3DPEHPK3PXP&issuer=R%26D\+%3CLab%3E&algorithm=SHA512&digits=8&period=45,0,/
+    );
+  });
+});
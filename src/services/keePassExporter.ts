@@ -0,0 +1,220 @@
+/**
+ * This module handles exporting OTP secrets for KeePass and KeePassXC:
+ *
+ * - A KeePass 2.x XML file, using KeePass's native `TimeOtp-*` fields for
+ *   TOTP entries and `HmacOtp-*` fields for HOTP entries.
+ * - A KeePassXC CSV file, whose TOTP column holds the otpauth URL.
+ */
+import { MigrationOtpParameter } from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { getOtpTypeInfo } from "../ui/otp";
+import {
+  ALGORITHM_STRING_MAP,
+  convertToOtpData,
+  DIGITS_VALUE_MAP,
+} from "./otpFormatter";
+import { toCsv } from "./csvExporter";
+import { uint8ArrayToBase64 } from "./protobufProcessor";
+import { randomBytes } from "./encryption";
+import { triggerDownload } from "./download";
+import { assertExportable } from "./exportCompatibility";
+
+/** The name of the group that holds the exported entries. */
+const KEEPASS_GROUP_NAME = "OTP Secrets";
+
+/** The algorithm names used by KeePass's `TimeOtp-Algorithm` field. */
+const KEEPASS_ALGORITHM_NAMES: { [algorithm: string]: string } = {
+  SHA1: "HMAC-SHA-1",
+  SHA256: "HMAC-SHA-256",
+  SHA512: "HMAC-SHA-512",
+};
+
+/** The columns of KeePassXC's CSV format. */
+const KEEPASSXC_CSV_HEADERS = [
+  "Group",
+  "Title",
+  "Username",
+  "Password",
+  "URL",
+  "Notes",
+  "TOTP",
+  "Icon",
+  "Last Modified",
+  "Created",
+];
+
+/**
+ * Gets the string fields of the KeePass entry for an OTP.
+ * @param otp The OTP parameter to convert.
+ * @param otpUri Whether to add KeePassXC's `otp` field, holding the otpauth
+ * URL, alongside KeePass's native OTP fields.
+ * @returns The entry's fields, in order, with a flag marking the fields that
+ * KeePass should protect in memory.
+ */
+function getKeePassEntryFields(
+  otp: MigrationOtpParameter,
+  otpUri: boolean
+): { key: string; value: string; protect?: boolean }[] {
+  const otpData = convertToOtpData(otp);
+  const fields = [
+    { key: "Title", value: otp.issuer || otpData.name },
+    { key: "UserName", value: otpData.name },
+    { key: "Password", value: "", protect: true },
+    { key: "URL", value: "" },
+    { key: "Notes", value: "" },
+  ];
+  if (otpUri) {
+    fields.push({ key: "otp", value: otpData.url, protect: true });
+  }
+
+  // KeePass's native OTP fields cannot describe Steam Guard codes, so those
+  // are only stored in KeePassXC's `otp` field.
+  const typeKey = getOtpTypeInfo(otp.type).key;
+  if (typeKey === "steam") return fields;
+
+  if (typeKey === "hotp") {
+    return [
+      ...fields,
+      { key: "HmacOtp-Secret-Base32", value: otpData.secret, protect: true },
+      { key: "HmacOtp-Counter", value: String(otpData.counter || 0) },
+    ];
+  }
+
+  const algorithm = ALGORITHM_STRING_MAP[otp.algorithm] || "SHA1";
+  return [
+    ...fields,
+    { key: "TimeOtp-Secret-Base32", value: otpData.secret, protect: true },
+    {
+      key: "TimeOtp-Algorithm",
+      value: KEEPASS_ALGORITHM_NAMES[algorithm] || algorithm,
+    },
+    {
+      key: "TimeOtp-Length",
+      value: String(DIGITS_VALUE_MAP[otp.digits] || 6),
+    },
+    { key: "TimeOtp-Period", value: String(otp.period || 30) },
+  ];
+}
+
+/**
+ * Builds a KeePass 2.x XML document holding one entry per OTP.
+ * @param otps The OTP parameters to export.
+ * @param options.otpUri Whether to also store each OTP's otpauth URL in
+ * KeePassXC's `otp` field. Steam Guard accounts can only be exported with it.
+ * @returns The XML document.
+ */
+export function createKeePassXmlDocument(
+  otps: MigrationOtpParameter[],
+  { otpUri = false }: { otpUri?: boolean } = {}
+): XMLDocument {
+  assertExportable(otps, {
+    appName: otpUri ? "KeePassXC" : "KeePass",
+    supportsSteam: otpUri,
+    supportsCustomPeriods: true,
+    supportsMd5: false,
+  });
+
+  const doc = document.implementation.createDocument(null, "KeePassFile");
+  const append = (parent: Element, name: string, text?: string) => {
+    const element = doc.createElement(name);
+    if (text !== undefined) element.textContent = text;
+    parent.appendChild(element);
+    return element;
+  };
+  const newUuid = () => uint8ArrayToBase64(randomBytes(16));
+
+  const meta = append(doc.documentElement, "Meta");
+  append(meta, "Generator", "Extract OTP Web");
+  append(meta, "DatabaseName", KEEPASS_GROUP_NAME);
+
+  const group = append(append(doc.documentElement, "Root"), "Group");
+  append(group, "UUID", newUuid());
+  append(group, "Name", KEEPASS_GROUP_NAME);
+
+  for (const otp of otps) {
+    const entry = append(group, "Entry");
+    append(entry, "UUID", newUuid());
+    for (const field of getKeePassEntryFields(otp, otpUri)) {
+      const string = append(entry, "String");
+      append(string, "Key", field.key);
+      const value = append(string, "Value", field.value);
+      if (field.protect) value.setAttribute("ProtectInMemory", "True");
+    }
+  }
+  return doc;
+}
+
+/**
+ * Builds a KeePass 2.x XML export from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The XML content.
+ */
+export function exportToKeePassXml(otps: MigrationOtpParameter[]): string {
+  const xml = new XMLSerializer().serializeToString(
+    createKeePassXmlDocument(otps)
+  );
+  return `<?xml version="1.0" encoding="utf-8" standalone="yes"?>\n${xml}`;
+}
+
+/**
+ * Builds a KeePassXC CSV export from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The CSV content.
+ */
+export function exportToKeePassXcCsv(otps: MigrationOtpParameter[]): string {
+  assertExportable(otps, {
+    appName: "KeePassXC",
+    supportsSteam: true,
+    supportsCustomPeriods: true,
+    supportsMd5: false,
+  });
+
+  const now = new Date().toISOString();
+  const rows = otps.map((otp) => {
+    const otpData = convertToOtpData(otp);
+    return [
+      KEEPASS_GROUP_NAME,
+      otp.issuer || otpData.name,
+      otpData.name,
+      "", // Password
+      "", // URL
+      "", // Notes
+      otpData.url,
+      0, // Icon
+      now,
+      now,
+    ];
+  });
+  return toCsv(KEEPASSXC_CSV_HEADERS, rows);
+}
+
+/**
+ * Exports the given OTPs as a file that can be imported into KeePass (XML) or
+ * KeePassXC (CSV).
+ * @param otpsToExport The OTP parameters to export.
+ * @param format Whether to save a KeePass XML or a KeePassXC CSV file.
+ */
+export function downloadAsKeePass(
+  otpsToExport: MigrationOtpParameter[],
+  format: "xml" | "csv"
+): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  if (format === "csv") {
+    triggerDownload(
+      "keepassxc_import.csv",
+      exportToKeePassXcCsv(otpsToExport),
+      "text/csv;charset=utf-8;"
+    );
+    return;
+  }
+
+  triggerDownload(
+    "keepass_import.xml",
+    exportToKeePassXml(otpsToExport),
+    "application/xml;charset=utf-8;"
+  );
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { MigrationOtpParameter } from "../types";
+import { processJson } from "./jsonProcessor";
+import { exportToLastPassFile } from "./lastPassFileExporter";
+
+describe("LastPass File Export", () => {
+  const mockOtps: MigrationOtpParameter[] = [
+    {
+      secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+      name: "test@example.com",
+      issuer: "Test Issuer",
+      algorithm: 2, // SHA256
+      digits: 2, // 8 digits
+      type: 2, // TOTP
+      counter: 0,
+      period: 60,
+    },
+    {
+      secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+      name: "hotp-user",
+      issuer: "Counter Corp",
+      algorithm: 1, // SHA1
+      digits: 1, // 6 digits
+      type: 1, // HOTP
+      counter: 42,
+    },
+  ];
+
+  it("should export a LastPass file that can be imported again", async () => {
+    const payload = exportToLastPassFile(mockOtps);
+    expect(payload.folders.map((folder) => folder.name)).toEqual([
+      "Favorites",
+      "Other Accounts",
+    ]);
+
+    const [totp, hotp] = payload.accounts;
+    expect(totp).toMatchObject({
+      issuerName: "Test Issuer",
+      algorithm: "SHA256",
+      digits: 8,
+      timeStep: 60,
+      folderData: { folderId: 0, position: 0 },
+    });
+    expect(totp.counter).toBeUndefined();
+    expect(hotp).toMatchObject({ counter: 42, digits: 6 });
+    expect(hotp.timeStep).toBeUndefined();
+
+    const imported = await processJson(JSON.stringify(payload));
+    expect(imported).toEqual([
+      expect.objectContaining({ ...mockOtps[0] }),
+      expect.objectContaining({ ...mockOtps[1] }),
+    ]);
+  });
+
+  it("should keep the folders and favourites of a LastPass file", async () => {
+    const lastPassFile = {
+      version: 1,
+      deviceName: "iPhone15,2",
+      folders: [
+        { id: 1, isOpened: true, name: "Favorites" },
+        { id: 0, isOpened: true, name: "Other Accounts" },
+        { id: 2, isOpened: false, name: "Work" },
+      ],
+      accounts: [
+        {
+          userName: "second",
+          issuerName: "Work Corp",
+          secret: "JBSWY3DPEHPK3PXP",
+          algorithm: "SHA1",
+          digits: 6,
+          timeStep: 30,
+          accountID: "263F192A-75D9-453B-884D-E62E65C76B8A",
+          creationTimestamp: 1753485524,
+          isFavorite: true,
+          folderData: { folderId: 2, position: 1 },
+        },
+        {
+          userName: "first",
+          issuerName: "Work Corp",
+          secret: "GEZDGNBVGY3TQOJQ",
+          algorithm: "SHA1",
+          digits: 6,
+          timeStep: 30,
+          accountID: "0354F2C0-79F2-4EE6-A67A-006AE2C63186",
+          creationTimestamp: 1753485518,
+          isFavorite: false,
+          folderData: { folderId: 2, position: 0 },
+        },
+      ],
+      localDeviceId: null,
+    };
+
+    const imported = await processJson(JSON.stringify(lastPassFile));
+    const payload = exportToLastPassFile(imported);
+
+    expect(payload.folders).toEqual(lastPassFile.folders);
+    expect(payload.accounts).toEqual([
+      expect.objectContaining(lastPassFile.accounts[0]),
+      expect.objectContaining(lastPassFile.accounts[1]),
+    ]);
+  });
+
+  it("should keep folders apart when merging accounts from two devices", () => {
+    const fromDevice = (name: string, folderName: string) => ({
+      ...mockOtps[0],
+      name,
+      lastPass: {
+        folder: { id: 2, name: folderName, isOpened: true },
+        position: 0,
+      },
+    });
+    const payload = exportToLastPassFile([
+      fromDevice("phone", "Work"),
+      fromDevice("tablet", "Personal"),
+      fromDevice("laptop", "Work"),
+    ]);
+
+    expect(payload.folders.slice(2)).toEqual([
+      { id: 2, isOpened: true, name: "Work" },
+      { id: 3, isOpened: true, name: "Personal" },
+    ]);
+    expect(payload.accounts.map((account) => account.folderData)).toEqual([
+      { folderId: 2, position: 0 },
+      { folderId: 3, position: 0 },
+      { folderId: 2, position: 1 },
+    ]);
+  });
+
+  it("should refuse to export Steam Guard accounts", () => {
+    const steamOtp = { ...mockOtps[0], digits: 0, type: 3 };
+    expect(() => exportToLastPassFile([steamOtp])).toThrow(
+      /does not support Steam Guard accounts/
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * This module handles exporting OTP secrets as a LastPass Authenticator
+ * accounts file, which can be loaded with the app's "Import accounts from
+ * file" option. Unlike the QR code export, the file can hold any number of
+ * accounts and keeps the counters of HOTP accounts. Accounts imported from
+ * LastPass keep their folders, favourite flags, IDs and creation times.
+ */
+import { encode as base32Encode } from "thirty-two";
+import {
+  LastPassFileAccount,
+  LastPassFilePayload,
+  MigrationOtpParameter,
+} from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { OtpType } from "../ui/otp";
+import { ALGORITHM_STRING_MAP, DIGITS_VALUE_MAP } from "./otpFormatter";
+import { assertExportable } from "./exportCompatibility";
+import { generateUUID } from "./uuid";
+import { triggerDownload } from "./download";
+import { LastPassFolderData, layOutLastPassFolders } from "./lastPassFormatter";
+
+/**
+ * Default values used when constructing a LastPass accounts file. These are
+ * based on files exported by the LastPass Authenticator app.
+ */
+const LASTPASS_FILE_DEFAULTS = {
+  VERSION: 1,
+  DEVICE_NAME: "OTP Secret Extractor",
+  TIME_STEP: 30,
+};
+
+/**
+ * Converts an OTP parameter into a LastPass accounts file entry. HOTP
+ * accounts have a counter instead of a time step.
+ * @param otp The OTP parameter to convert.
+ * @param folderData The folder and position of the account.
+ * @param now The creation time of accounts not imported from LastPass, in
+ * milliseconds.
+ * @returns The LastPass account.
+ */
+function mapToLastPassFileAccount(
+  otp: MigrationOtpParameter,
+  folderData: LastPassFolderData,
+  now: number
+): LastPassFileAccount {
+  const account: LastPassFileAccount = {
+    originalUserName: otp.name,
+    userName: otp.name,
+    originalIssuerName: otp.issuer,
+    issuerName: otp.issuer,
+    accountID: otp.lastPass?.accountId || generateUUID().toUpperCase(),
+    secret: base32Encode(otp.secret).toString().replace(/=/g, ""),
+    algorithm: ALGORITHM_STRING_MAP[otp.algorithm] || "SHA1",
+    digits: (DIGITS_VALUE_MAP[otp.digits] ||
+      6) as LastPassFileAccount["digits"],
+    // LastPass records creation times in seconds.
+    creationTimestamp: Math.floor((otp.lastPass?.createdAt ?? now) / 1000),
+    isFavorite: otp.lastPass?.isFavorite ?? false,
+    folderData,
+    lmiUserId: "",
+  };
+
+  if (otp.type === OtpType.HOTP) {
+    // The protobuf library decodes int64 as a Long object. Convert it to a number.
+    account.counter = Number(otp.counter || 0);
+  } else {
+    account.timeStep = otp.period || LASTPASS_FILE_DEFAULTS.TIME_STEP;
+  }
+  return account;
+}
+
+/**
+ * Builds a LastPass Authenticator accounts file from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The LastPass accounts file object.
+ */
+export function exportToLastPassFile(
+  otps: MigrationOtpParameter[]
+): LastPassFilePayload {
+  assertExportable(otps, {
+    appName: "LastPass Authenticator",
+    supportsSteam: false,
+    supportsCustomPeriods: true,
+  });
+
+  const { folders, placements } = layOutLastPassFolders(otps);
+  const now = Date.now();
+  return {
+    version: LASTPASS_FILE_DEFAULTS.VERSION,
+    deviceName: LASTPASS_FILE_DEFAULTS.DEVICE_NAME,
+    folders,
+    accounts: otps.map((otp, index) =>
+      mapToLastPassFileAccount(otp, placements[index], now)
+    ),
+    localDeviceId: null,
+  };
+}
+
+/**
+ * Exports the given OTPs as a file that can be imported into LastPass
+ * Authenticator.
+ * @param otpsToExport The OTP parameters to export.
+ */
+export function downloadAsLastPassFile(
+  otpsToExport: MigrationOtpParameter[]
+): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  const jsonString = JSON.stringify(
+    exportToLastPassFile(otpsToExport),
+    null,
+    2
+  );
+  triggerDownload(
+    "lastpass_accounts.json",
+    jsonString,
+    "application/json;charset=utf-8;"
+  );
+}
@@ -1,10 +1,119 @@
 import {
+  LastPassAccountMetadata,
+  LastPassFolder,
   LastPassQrAccount,
   LastPassQrPayload,
   MigrationOtpParameter,
 } from "../types";
 import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
 
+/** The ID of the folder LastPass puts accounts in by default. */
+const LASTPASS_DEFAULT_FOLDER_ID = 0;
+
+/** The folders that every LastPass Authenticator export contains. */
+const LASTPASS_DEFAULT_FOLDERS: LastPassFolder[] = [
+  { id: 1, isOpened: true, name: "Favorites" },
+  { id: LASTPASS_DEFAULT_FOLDER_ID, isOpened: true, name: "Other Accounts" },
+];
+
+/**
+ * The folder and position of an account in a LastPass export.
+ */
+export interface LastPassFolderData {
+  folderId: number;
+  position: number;
+}
+
+/**
+ * The folders of a LastPass export, and where each account goes.
+ */
+export interface LastPassFolderLayout {
+  folders: LastPassFolder[];
+  placements: LastPassFolderData[]; // In the same order as the accounts
+}
+
+/**
+ * Builds the LastPass metadata of an imported account.
+ * @param details The account's ID, creation time, favourite flag and folder
+ * data, as found in the export.
+ * @param folders The folder definitions of the export.
+ * @returns The LastPass metadata of the account.
+ */
+export function toLastPassMetadata(
+  details: {
+    accountId?: string;
+    createdAt?: number;
+    isFavorite?: boolean;
+    folderData?: LastPassFolderData;
+  },
+  folders: LastPassFolder[] = []
+): LastPassAccountMetadata {
+  const { folderData } = details;
+  // The mobile QR export leaves out the folder definitions, so fall back to
+  // the default folders.
+  const folder = folderData
+    ? [...folders, ...LASTPASS_DEFAULT_FOLDERS].find(
+        (f) => f.id === folderData.folderId
+      )
+    : undefined;
+  return {
+    accountId: details.accountId,
+    createdAt: details.createdAt,
+    isFavorite: details.isFavorite,
+    folder,
+    position: folderData?.position,
+  };
+}
+
+/**
+ * Works out the folders of a LastPass export from the folders the accounts
+ * were imported from. Folders are matched by name, because accounts merged
+ * from several devices can use the same folder ID for different folders.
+ * Accounts keep their order within each folder; accounts that were not
+ * imported from LastPass go to the end of "Other Accounts".
+ * @param otps The OTP parameters to export.
+ * @returns The folder definitions and the placement of each account.
+ */
+export function layOutLastPassFolders(
+  otps: MigrationOtpParameter[]
+): LastPassFolderLayout {
+  const folders = LASTPASS_DEFAULT_FOLDERS.map((folder) => ({ ...folder }));
+
+  const folderIds = otps.map((otp) => {
+    const folder = otp.lastPass?.folder;
+    if (!folder) return LASTPASS_DEFAULT_FOLDER_ID;
+
+    const existing = folders.find((f) => f.name === folder.name);
+    if (existing) return existing.id;
+
+    const id = folders.some((f) => f.id === folder.id)
+      ? Math.max(...folders.map((f) => f.id)) + 1
+      : folder.id;
+    folders.push({ ...folder, id });
+    return id;
+  });
+
+  // Sorting is stable, so accounts with the same position keep their order.
+  const order = otps
+    .map((_, index) => index)
+    .sort(
+      (a, b) =>
+        (otps[a].lastPass?.position ?? Number.MAX_SAFE_INTEGER) -
+        (otps[b].lastPass?.position ?? Number.MAX_SAFE_INTEGER)
+    );
+
+  const nextPositions = new Map<number, number>();
+  const placements: LastPassFolderData[] = new Array(otps.length);
+  for (const index of order) {
+    const folderId = folderIds[index];
+    const position = nextPositions.get(folderId) ?? 0;
+    nextPositions.set(folderId, position + 1);
+    placements[index] = { folderId, position };
+  }
+
+  return { folders, placements };
+}
+
 /**
  * Processes the proprietary JSON format from a LastPass QR code, converting its
  * accounts into the standard MigrationOtpParameter format.
@@ -27,6 +136,12 @@ export function processLastPassQrJson(
     );
   }
 
+  const folders: LastPassFolder[] = (data.f || []).map((folder) => ({
+    id: folder.i,
+    name: folder.n,
+    isOpened: folder.iO,
+  }));
+
   return accounts.map((lpAccount: LastPassQrAccount) => {
     const rawAccount: RawOtpAccount = {
       name: lpAccount.oUN,
@@ -36,7 +151,19 @@ export function processLastPassQrJson(
       digits: lpAccount.d,
       // LastPass QR codes seem to only support TOTP
       type: "totp",
+      period: lpAccount.tS,
+    };
+    return {
+      ...mapToMigrationOtpParameter(rawAccount),
+      lastPass: toLastPassMetadata(
+        {
+          accountId: lpAccount.aId,
+          createdAt: lpAccount.cT,
+          isFavorite: lpAccount.iF,
+          folderData: lpAccount.fD,
+        },
+        folders
+      ),
     };
-    return mapToMigrationOtpParameter(rawAccount);
   });
 }
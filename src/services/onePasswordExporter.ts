@@ -0,0 +1,64 @@
+/**
+ * This module handles exporting OTP secrets as a CSV file in the layout
+ * expected by 1Password's CSV importer. Each account becomes a login item
+ * whose one-time password field holds the account's otpauth URL.
+ */
+import { MigrationOtpParameter } from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { convertToOtpData } from "./otpFormatter";
+import { toCsv } from "./csvExporter";
+import { triggerDownload } from "./download";
+import { assertExportable } from "./exportCompatibility";
+
+/** The columns recognised by 1Password's CSV importer. */
+const ONEPASSWORD_CSV_HEADERS = [
+  "Title",
+  "Website",
+  "Username",
+  "Password",
+  "Notes",
+  "One-time password",
+];
+
+/**
+ * Builds a 1Password CSV export from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The CSV content.
+ */
+export function exportToOnePasswordCsv(otps: MigrationOtpParameter[]): string {
+  // The app ignores the steam encoder and would show numeric codes instead.
+  assertExportable(otps, {
+    appName: "1Password",
+    supportsSteam: false,
+    supportsCustomPeriods: true,
+  });
+
+  const rows = otps.map((otp) => [
+    otp.issuer || otp.name,
+    "", // Website
+    otp.name,
+    "", // Password
+    "", // Notes
+    convertToOtpData(otp).url,
+  ]);
+  return toCsv(ONEPASSWORD_CSV_HEADERS, rows);
+}
+
+/**
+ * Exports the given OTPs as a CSV file that can be imported into 1Password.
+ * @param otpsToExport The OTP parameters to export.
+ */
+export function downloadAsOnePasswordCsv(
+  otpsToExport: MigrationOtpParameter[]
+): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  triggerDownload(
+    "1password_import.csv",
+    exportToOnePasswordCsv(otpsToExport),
+    "text/csv;charset=utf-8;"
+  );
+}
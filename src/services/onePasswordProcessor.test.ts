@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { encode } from "thirty-two";
+import {
+  parseOtpFieldValue,
+  processOnePuxExport,
+} from "./onePasswordProcessor";
+import { exportToOnePasswordCsv } from "./onePasswordExporter";
+import { readTestData } from "../../tests/testHelpers";
+
+describe("1Password Export Import", () => {
+  it("should correctly parse a .1pux export", async () => {
+    const otpParameters = await processOnePuxExport(
+      readTestData("1password_export.1pux")
+    );
+
+    expect(otpParameters).toHaveLength(2);
+
+    // An otpauth URI without an issuer takes the item title as its issuer.
+    const [fromUri, fromSecret] = otpParameters;
+    expect(fromUri.name).toBe("octocat");
+    expect(fromUri.issuer).toBe("GitHub");
+    expect(fromUri.digits).toBe(2); // 8 digits
+    expect(fromUri.period).toBe(60);
+    expect(encode(fromUri.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    expect(fromSecret.name).toBe("bob");
+    expect(fromSecret.issuer).toBe("Example Corp");
+    expect(fromSecret.type).toBe(2); // TOTP
+    expect(encode(fromSecret.secret).toString()).toBe(
+      "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+    );
+  });
+
+  it("should reject a bare secret that is not Base32", async () => {
+    await expect(
+      parseOtpFieldValue("not a secret!", "Example Corp", "bob")
+    ).rejects.toThrow(/not a valid Base32/);
+  });
+
+  it("should reject a file that is not a ZIP archive", async () => {
+    const notAZip = new TextEncoder().encode("This is not a ZIP archive.");
+    await expect(processOnePuxExport(notAZip)).rejects.toThrow(
+      /Invalid ZIP file/
+    );
+  });
+});
+
+describe("1Password CSV Export", () => {
+  it("should export a CSV file in 1Password's column layout", () => {
+    const csv = exportToOnePasswordCsv([
+      {
+        secret: new Uint8Array([
+          72, 101, 108, 108, 111, 33, 222, 173, 190, 239,
+        ]),
+        name: "alice@example.com",
+        issuer: "Example",
+        algorithm: 1, // SHA1
+        digits: 1, // 6 digits
+        type: 2, // TOTP
+        counter: 0,
+      },
+    ]);
+
+    expect(csv.split("\n")).toEqual([
+      "Title,Website,Username,Password,Notes,One-time password",
+      "Example,,alice@example.com,,,otpauth://totp/alice%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Example",
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * This module handles importing 1Password exports. A `.1pux` export is a ZIP
+ * archive whose `export.data` file holds the vault contents as JSON.
+ * One-time passwords are stored in item section fields, either as a full
+ * `otpauth://` URI or as a bare Base32 secret.
+ */
+import {
+  MigrationOtpParameter,
+  OnePuxExportData,
+  OnePuxField,
+  OnePuxItem,
+} from "../types";
+import {
+  mapToMigrationOtpParameter,
+  normalizeBase32Secret,
+} from "./otpDataMapper";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { readZipFile } from "./zipReader";
+import { logger } from "./logger";
+
+/** The path of the vault data within a `.1pux` archive. */
+const ONEPUX_DATA_FILE = "export.data";
+
+/**
+ * Gets the one-time password value of a field, if it has one.
+ * @param field The 1Password field.
+ * @returns The otpauth URI or Base32 secret, or null.
+ */
+function getOtpFieldValue(field: OnePuxField): string | null {
+  const value = field.value?.totp ?? field.value?.otp;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Converts a one-time password value into OTP parameters.
+ * @param value The otpauth URI or bare Base32 secret.
+ * @param issuer The issuer to use when the value does not specify one.
+ * @param name The account name to use for a bare secret.
+ * @returns A promise that resolves with the OTP parameters.
+ * @throws If a bare secret is not valid Base32.
+ */
+export async function parseOtpFieldValue(
+  value: string,
+  issuer: string,
+  name: string
+): Promise<MigrationOtpParameter[]> {
+  if (!value.startsWith("otpauth://")) {
+    return [
+      mapToMigrationOtpParameter({
+        name,
+        issuer,
+        secret: normalizeBase32Secret(value),
+        algorithm: "SHA1",
+        digits: 6,
+        type: "totp",
+      }),
+    ];
+  }
+
+  const otps = await getOtpParametersFromUrl(value);
+  return otps.map((otp) => ({ ...otp, issuer: otp.issuer || issuer }));
+}
+
+/**
+ * Extracts the OTP parameters from a single 1Password item.
+ * @param item The 1Password item.
+ * @returns A promise that resolves with the item's OTP parameters, if any.
+ */
+async function processOnePuxItem(
+  item: OnePuxItem
+): Promise<MigrationOtpParameter[]> {
+  const title = item.overview?.title || "";
+  const username =
+    item.details?.loginFields?.find((f) => f.designation === "username")
+      ?.value ||
+    item.overview?.subtitle ||
+    "";
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const section of item.details?.sections || []) {
+    for (const field of section.fields || []) {
+      const value = getOtpFieldValue(field);
+      if (!value) continue;
+      try {
+        otpParameters.push(
+          ...(await parseOtpFieldValue(value, title, username))
+        );
+      } catch (error: any) {
+        logger.warn(
+          `Skipping invalid one-time password in item: ${title}`,
+          error
+        );
+      }
+    }
+  }
+  return otpParameters;
+}
+
+/**
+ * Processes a 1Password `.1pux` export.
+ * @param fileBytes The raw contents of the `.1pux` archive.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processOnePuxExport(
+  fileBytes: Uint8Array
+): Promise<MigrationOtpParameter[]> {
+  const dataBytes = readZipFile(fileBytes, ONEPUX_DATA_FILE);
+  if (!dataBytes) {
+    throw new Error(`Invalid 1PUX file: ${ONEPUX_DATA_FILE} not found.`);
+  }
+
+  const data: OnePuxExportData = JSON.parse(
+    new TextDecoder().decode(dataBytes)
+  );
+  const items = (data.accounts || []).flatMap((account) =>
+    (account.vaults || []).flatMap((vault) => vault.items || [])
+  );
+
+  const results = await Promise.all(items.map(processOnePuxItem));
+  return results.flat();
+}
@@ -23,15 +23,46 @@ export const DIGITS_MAP: { [key: number]: number } = {
   8: 2, // DIGIT_COUNT_EIGHT
 };
 
+// Marks digit counts that Google's format cannot describe. Unlike
+// DIGITS_UNSPECIFIED (0), which authenticator apps read as 6 digits, such
+// accounts cannot be exported without showing wrong codes.
+export const UNSUPPORTED_DIGITS = -1;
+
+// Steam Guard is not part of Google's format, so it takes the next free value.
+export const TYPE_MAP: { [key: string]: number } = {
+  hotp: 1,
+  totp: 2,
+  steam: 3,
+};
+
 // A generic representation of an account from various sources
 export interface RawOtpAccount {
   name: string;
   issuer: string;
   secret: string; // Base32 encoded
   algorithm: string;
-  digits: 6 | 8;
-  type: "totp" | "hotp";
+  digits: number; // 6 or 8, Steam Guard codes always have 5 characters
+  type: "totp" | "hotp" | "steam";
   counter?: number;
+  period?: number;
+}
+
+/** A Base32 secret, with optional padding. */
+const BASE32_SECRET_PATTERN = /^[A-Z2-7]+=*$/;
+
+/**
+ * Normalizes a bare Base32 secret typed by a user, which may contain spaces,
+ * dashes and lowercase letters.
+ * @param value The secret as stored in the export.
+ * @returns The uppercase secret without separators.
+ * @throws If the value is not a valid Base32 secret.
+ */
+export function normalizeBase32Secret(value: string): string {
+  const secret = value.replace(/[\s-]/g, "").toUpperCase();
+  if (!BASE32_SECRET_PATTERN.test(secret)) {
+    throw new Error("The secret is not a valid Base32 string.");
+  }
+  return secret;
 }
 
 /**
@@ -45,7 +76,10 @@ export function mapToMigrationOtpParameter(
 ): MigrationOtpParameter {
   const secretBytes = new Uint8Array(thirtyTwoDecode(acc.secret));
   const algorithmValue = ALGORITHM_MAP[acc.algorithm.toUpperCase()] || 0;
-  const digitsValue = DIGITS_MAP[acc.digits] || 0;
+  const digitsValue =
+    acc.type === "steam" || !acc.digits
+      ? 0
+      : DIGITS_MAP[acc.digits] || UNSUPPORTED_DIGITS;
 
   return {
     secret: secretBytes,
@@ -53,7 +87,8 @@ export function mapToMigrationOtpParameter(
     issuer: acc.issuer,
     algorithm: algorithmValue,
     digits: digitsValue,
-    type: acc.type === "totp" ? 2 : 1,
+    type: TYPE_MAP[acc.type] || 1,
     counter: acc.counter || 0,
+    period: acc.period,
   };
 }
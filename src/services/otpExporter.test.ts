@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
 import pako from "pako";
 import protobuf from "protobufjs";
 import { exportToGoogleAuthenticator, exportToLastPass } from "./otpExporter";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { UNSUPPORTED_DIGITS } from "./otpDataMapper";
 import { MigrationOtpParameter } from "../types";
 
 // Mock data for testing
@@ -43,7 +45,9 @@ describe("OTP Exporter", () => {
   });
 
   it("should correctly export to Google Authenticator format", async () => {
-    const url = await exportToGoogleAuthenticator(mockOtps);
+    const urls = await exportToGoogleAuthenticator(mockOtps);
+    expect(urls).toHaveLength(1);
+    const url = urls[0];
     expect(url).toContain("otpauth-migration://offline?data=");
 
     // Decode the URL to verify its contents
@@ -65,8 +69,51 @@ describe("OTP Exporter", () => {
     expect(payloadObject.batchId).toBe(-2147483648);
   });
 
+  it("should split large Google Authenticator exports into batches", async () => {
+    const manyOtps = Array.from({ length: 25 }, (_, i) => ({
+      ...mockOtps[0],
+      name: `account-${i}`,
+    }));
+    const urls = await exportToGoogleAuthenticator(manyOtps);
+    expect(urls).toHaveLength(3);
+
+    const batches = await Promise.all(urls.map(getOtpParametersFromUrl));
+    expect(batches.map((otps) => otps.length)).toEqual([10, 10, 5]);
+    batches.forEach((otps, index) => {
+      expect(otps[0].batch).toEqual({ id: "80000000", index, size: 3 });
+    });
+    expect(batches[2][4].name).toBe("account-24");
+  });
+
+  it("should refuse Google exports that would change an account's codes", async () => {
+    await expect(
+      exportToGoogleAuthenticator([{ ...mockOtps[0], period: 60 }])
+    ).rejects.toThrow(
+      "Google Authenticator only supports 30-second codes. Deselect the 1 account with a different time step and try again."
+    );
+    await expect(
+      exportToGoogleAuthenticator([
+        mockOtps[0],
+        { ...mockOtps[1], digits: UNSUPPORTED_DIGITS },
+      ])
+    ).rejects.toThrow(
+      "Google Authenticator only supports 6- and 8-digit codes. Deselect the 1 account with a different number of digits and try again."
+    );
+  });
+
+  it("should export accounts with an unspecified digit count to Google", async () => {
+    const urls = await exportToGoogleAuthenticator([
+      { ...mockOtps[0], digits: 0 },
+    ]);
+    const [otp] = await getOtpParametersFromUrl(urls[0]);
+    expect(otp.name).toBe("test-account");
+    expect(otp.digits).toBe(0);
+  });
+
   it("should correctly export to LastPass format", async () => {
-    const url = await exportToLastPass(mockOtps);
+    const urls = await exportToLastPass(mockOtps);
+    expect(urls).toHaveLength(1);
+    const url = urls[0];
     expect(url).toContain("lpaauth-migration://offline?data=");
 
     // --- Decode the doubly-gzipped and base64-encoded payload ---
@@ -97,6 +144,59 @@ describe("OTP Exporter", () => {
     expect(firstAccount.cT).toBe(1672531200000);
   });
 
+  it("should split large LastPass exports into batches", async () => {
+    const manyOtps = Array.from({ length: 12 }, (_, i) => ({
+      ...mockOtps[0],
+      name: `account-${i}`,
+    }));
+    const urls = await exportToLastPass(manyOtps);
+    expect(urls).toHaveLength(2);
+
+    const batches = await Promise.all(urls.map(getOtpParametersFromUrl));
+    expect(batches.map((otps) => otps.length)).toEqual([10, 2]);
+    batches.forEach((otps, index) => {
+      expect(otps[0].batch).toEqual({
+        id: "MOCK-UUID-0000-0000-0000-000000000000",
+        index,
+        size: 2,
+      });
+    });
+    expect(batches[1][1].name).toBe("account-11");
+  });
+
+  it("should keep the time step of LastPass accounts through a round trip", async () => {
+    const [url] = await exportToLastPass([{ ...mockOtps[0], period: 60 }]);
+    const [imported] = await getOtpParametersFromUrl(url);
+    expect(imported.period).toBe(60);
+  });
+
+  it("should keep LastPass folders and favourites through a round trip", async () => {
+    const imported: MigrationOtpParameter[] = [
+      {
+        ...mockOtps[0],
+        lastPass: {
+          accountId: "0354F2C0-79F2-4EE6-A67A-006AE2C63186",
+          createdAt: 1753485518000,
+          isFavorite: true,
+          folder: { id: 2, name: "Work", isOpened: false },
+          position: 0,
+        },
+      },
+      mockOtps[1],
+    ];
+    const [url] = await exportToLastPass(imported);
+    const [work, other] = await getOtpParametersFromUrl(url);
+
+    expect(work.lastPass).toEqual(imported[0].lastPass);
+    // Accounts that were not imported from LastPass go to "Other Accounts".
+    expect(other.lastPass).toMatchObject({
+      accountId: "MOCK-UUID-0000-0000-0000-000000000000",
+      isFavorite: false,
+      folder: { id: 0, name: "Other Accounts" },
+      position: 0,
+    });
+  });
+
   it("should throw an error if no compatible accounts are found for LastPass", async () => {
     const hotpOnly: MigrationOtpParameter[] = [
       {
@@ -10,9 +10,12 @@ import { encode as base32Encode } from "thirty-two";
 import pako from "pako";
 import protobuf from "protobufjs";
 import { LastPassQrAccount, MigrationOtpParameter } from "../types";
+import { OtpType } from "../ui/otp";
 import { uint8ArrayToBase64 } from "./protobufProcessor";
 import { generateUUID } from "./uuid";
+import { layOutLastPassFolders } from "./lastPassFormatter";
 import { logger } from "./logger";
+import { assertExportable } from "./exportCompatibility";
 
 // --- Constants ---
 
@@ -22,8 +25,9 @@ import { logger } from "./logger";
  */
 const GOOGLE_PAYLOAD_DEFAULTS = {
   VERSION: 1,
-  BATCH_SIZE: 1,
-  BATCH_INDEX: 0,
+  // The official app puts about ten accounts in each QR code, which keeps
+  // the codes easy to scan.
+  ACCOUNTS_PER_QR: 10,
 };
 
 /**
@@ -32,7 +36,9 @@ const GOOGLE_PAYLOAD_DEFAULTS = {
 const LASTPASS_DEFAULTS = {
   VERSION: 3,
   TIME_STEP: 30,
-  DEFAULT_FOLDER_ID: 0,
+  // Each account takes more space than in Google's format, but the payload
+  // is compressed, so the same split as Google's keeps the codes scannable.
+  ACCOUNTS_PER_QR: 10,
 };
 
 // --- Protobuf and Data Mapping Setup ---
@@ -60,43 +66,69 @@ const DIGITS_VALUE_MAP: { [key: number]: 6 | 8 } = {
   2: 8, // DIGIT_COUNT_EIGHT
 };
 
+/**
+ * Splits a list into consecutive chunks, one per QR code of a batch.
+ * @param items The items to split.
+ * @param chunkSize The maximum number of items in each chunk.
+ * @returns The chunks, in order.
+ */
+function splitIntoChunks<T>(items: T[], chunkSize: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    chunks.push(items.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
 // --- Google Authenticator Export ---
 
 /**
- * Creates a Google Authenticator migration URL from a list of OTP parameters.
+ * Creates Google Authenticator migration URLs from a list of OTP parameters.
+ * Like the official app, large exports are split into a batch of several QR
+ * codes, which share a batch ID and are numbered by their batch index.
  * @param otps The list of OTP parameters to export.
- * @returns A promise that resolves to the otpauth-migration URL string.
+ * @returns A promise that resolves to the otpauth-migration URL of each QR
+ * code, in order.
  */
 export async function exportToGoogleAuthenticator(
   otps: MigrationOtpParameter[]
-): Promise<string> {
+): Promise<string[]> {
+  // Google's format has no time step, so the app would use 30 seconds.
+  assertExportable(otps, {
+    appName: "Google Authenticator",
+    supportsSteam: false,
+    supportsCustomPeriods: false,
+  });
+
   const root = await protobufRoot;
   const MigrationPayload = root.lookupType("MigrationPayload");
 
-  // The protobuf payload expects the otpParameters field.
-  const payload = {
-    otpParameters: otps,
-    version: GOOGLE_PAYLOAD_DEFAULTS.VERSION,
-    batchSize: GOOGLE_PAYLOAD_DEFAULTS.BATCH_SIZE,
-    batchIndex: GOOGLE_PAYLOAD_DEFAULTS.BATCH_INDEX,
-    // The batch ID seems to be a random 32-bit integer. We generate one here
-    // to mimic the behavior of the official app.
-    batchId: Math.floor(Math.random() * 2 ** 32),
-  };
-
-  const errMsg = MigrationPayload.verify(payload);
-  if (errMsg) {
-    throw new Error(`Protobuf verification failed: ${errMsg}`);
-  }
-
-  const message = MigrationPayload.create(payload);
-  const buffer = MigrationPayload.encode(message).finish();
-
-  const base64Data = uint8ArrayToBase64(buffer);
-  const url = `otpauth-migration://offline?data=${encodeURIComponent(
-    base64Data
-  )}`;
-  return url;
+  const chunks = splitIntoChunks(otps, GOOGLE_PAYLOAD_DEFAULTS.ACCOUNTS_PER_QR);
+  // The batch ID seems to be a random 32-bit integer. We generate one here
+  // to mimic the behavior of the official app.
+  const batchId = Math.floor(Math.random() * 2 ** 32);
+
+  return chunks.map((chunk, batchIndex) => {
+    // The protobuf payload expects the otpParameters field.
+    const payload = {
+      otpParameters: chunk,
+      version: GOOGLE_PAYLOAD_DEFAULTS.VERSION,
+      batchSize: chunks.length,
+      batchIndex,
+      batchId,
+    };
+
+    const errMsg = MigrationPayload.verify(payload);
+    if (errMsg) {
+      throw new Error(`Protobuf verification failed: ${errMsg}`);
+    }
+
+    const message = MigrationPayload.create(payload);
+    const buffer = MigrationPayload.encode(message).finish();
+
+    const base64Data = uint8ArrayToBase64(buffer);
+    return `otpauth-migration://offline?data=${encodeURIComponent(base64Data)}`;
+  });
 }
 
 /**
@@ -114,47 +146,53 @@ function gzipAndBase64Encode(payload: object): string {
 // --- LastPass Authenticator Export ---
 
 /**
- * Creates a LastPass Authenticator migration URL from a list of OTP parameters.
+ * Creates LastPass Authenticator migration URLs from a list of OTP parameters.
  * This version mimics the complex structure observed in LastPass browser extension exports
- * to ensure maximum compatibility.
+ * to ensure maximum compatibility. Large exports are split into a batch of
+ * several QR codes, which share a batch ID and are numbered by their batch index.
  * @param otps The list of OTP parameters to export.
- * @returns A promise that resolves to the lpaauth-migration URL string.
+ * @returns A promise that resolves to the lpaauth-migration URL of each QR
+ * code, in order.
  */
 export async function exportToLastPass(
   otps: MigrationOtpParameter[]
-): Promise<string> {
+): Promise<string[]> {
+  assertExportable(otps, {
+    appName: "LastPass Authenticator",
+    supportsSteam: false,
+    supportsCustomPeriods: true,
+  });
+
+  // LastPass QR code exports only support TOTP accounts.
+  // Filter out any incompatible HOTP accounts.
+  const totpOtps = otps.filter((otp) => otp.type === OtpType.TOTP);
+  const { folders, placements } = layOutLastPassFolders(totpOtps);
+
   // --- Step 1: Map OTPs to the complex LastPass account format ---
-  const lastPassAccounts: LastPassQrAccount[] = otps
-    .map((otp, index) => {
-      if (otp.type !== 2) {
-        // LastPass QR code exports only support TOTP accounts.
-        // Filter out any incompatible HOTP accounts.
-        return null;
-      }
-
-      const secretText = base32Encode(otp.secret).toString().replace(/=/g, "");
-      const algorithm = ALGORITHM_STRING_MAP[otp.algorithm] || "SHA1";
-      const digits = DIGITS_VALUE_MAP[otp.digits] || 6;
-
-      const account: LastPassQrAccount = {
-        // Essential OTP data
-        oUN: otp.name,
-        oIN: otp.issuer,
-        s: secretText,
-        a: algorithm,
-        d: digits,
-        tS: LASTPASS_DEFAULTS.TIME_STEP, // LastPass seems to default to a 30-second time step.
-        uN: otp.name,
-        iN: otp.issuer,
-        aId: generateUUID().toUpperCase(), // Generate a unique ID for the account
-        cT: Date.now(), // Set creation time to now
-        iF: false,
-        pN: false,
-        fD: { folderId: LASTPASS_DEFAULTS.DEFAULT_FOLDER_ID, position: index },
-      };
-      return account;
-    })
-    .filter((acc): acc is LastPassQrAccount => acc !== null);
+  const lastPassAccounts: LastPassQrAccount[] = totpOtps.map((otp, index) => {
+    const secretText = base32Encode(otp.secret).toString().replace(/=/g, "");
+    const algorithm = ALGORITHM_STRING_MAP[otp.algorithm] || "SHA1";
+    const digits = DIGITS_VALUE_MAP[otp.digits] || 6;
+
+    const account: LastPassQrAccount = {
+      // Essential OTP data
+      oUN: otp.name,
+      oIN: otp.issuer,
+      s: secretText,
+      a: algorithm,
+      d: digits,
+      tS: otp.period || LASTPASS_DEFAULTS.TIME_STEP, // LastPass seems to default to a 30-second time step.
+      uN: otp.name,
+      iN: otp.issuer,
+      // Accounts imported from LastPass keep their ID and creation time.
+      aId: otp.lastPass?.accountId || generateUUID().toUpperCase(),
+      cT: otp.lastPass?.createdAt ?? Date.now(),
+      iF: otp.lastPass?.isFavorite ?? false,
+      pN: false,
+      fD: placements[index],
+    };
+    return account;
+  });
 
   if (lastPassAccounts.length === 0) {
     throw new Error(
@@ -162,39 +200,50 @@ export async function exportToLastPass(
     );
   }
 
-  // --- Step 2: Create the complex inner JSON payload ---
-  const finalJsonPayload = {
-    dS: "",
-    dId: "",
-    a: lastPassAccounts,
-    f: [
-      // Default folder structure seen in logs
-      { iO: true, i: 1, n: "Favorites" },
-      { iO: true, i: 0, n: "Other Accounts" },
-    ],
-  };
-
-  // --- Step 3: Gzip and Base64 encode the inner payload ---
-  const contentBase64 = gzipAndBase64Encode(finalJsonPayload);
-
-  // --- Step 4: Create the complex outer JSON wrapper ---
-  const jsonWrapper = {
-    batchId: generateUUID().toUpperCase(),
-    batchSize: 1,
-    version: LASTPASS_DEFAULTS.VERSION, // Matches the imported version
-    batchIndex: 0,
-    content: contentBase64,
-  };
-
-  // --- Step 5: Gzip and Base64 encode the outer wrapper ---
-  const finalBase64Data = gzipAndBase64Encode(jsonWrapper);
-
-  // --- Step 6: Construct the final URL with the correct '/offline' path ---
-  const url = `lpaauth-migration://offline?data=${encodeURIComponent(
-    finalBase64Data
-  )}`;
-
-  // This log is useful for debugging the complex nested structure.
-  logger.debug("[LastPass Export] Final URL constructed:", url);
-  return url;
+  const chunks = splitIntoChunks(
+    lastPassAccounts,
+    LASTPASS_DEFAULTS.ACCOUNTS_PER_QR
+  );
+  const batchId = generateUUID().toUpperCase();
+
+  return chunks.map((chunk, batchIndex) => {
+    // --- Step 2: Create the complex inner JSON payload ---
+    const finalJsonPayload = {
+      dS: "",
+      dId: "",
+      a: chunk,
+      f: folders.map((folder) => ({
+        iO: folder.isOpened,
+        i: folder.id,
+        n: folder.name,
+      })),
+    };
+
+    // --- Step 3: Gzip and Base64 encode the inner payload ---
+    const contentBase64 = gzipAndBase64Encode(finalJsonPayload);
+
+    // --- Step 4: Create the complex outer JSON wrapper ---
+    const jsonWrapper = {
+      batchId,
+      batchSize: chunks.length,
+      version: LASTPASS_DEFAULTS.VERSION, // Matches the imported version
+      batchIndex,
+      content: contentBase64,
+    };
+
+    // --- Step 5: Gzip and Base64 encode the outer wrapper ---
+    const finalBase64Data = gzipAndBase64Encode(jsonWrapper);
+
+    // --- Step 6: Construct the final URL with the correct '/offline' path ---
+    const url = `lpaauth-migration://offline?data=${encodeURIComponent(
+      finalBase64Data
+    )}`;
+
+    // This log is useful for debugging the complex nested structure.
+    logger.debug(
+      `[LastPass Export] URL ${batchIndex + 1} of ${chunks.length} constructed:`,
+      url
+    );
+    return url;
+  });
 }
@@ -1,15 +1,16 @@
 import { encode } from "thirty-two";
 import { OtpData, MigrationOtpParameter } from "../types";
 import { getOtpTypeInfo } from "../ui/otp";
+import { STEAM_DIGITS } from "./steamProcessor";
 
-const ALGORITHM_STRING_MAP: { [key: number]: string } = {
+export const ALGORITHM_STRING_MAP: { [key: number]: string } = {
   1: "SHA1",
   2: "SHA256",
   3: "SHA512",
   4: "MD5",
 };
 
-const DIGITS_VALUE_MAP: { [key: number]: number } = {
+export const DIGITS_VALUE_MAP: { [key: number]: number } = {
   1: 6, // DIGIT_COUNT_SIX
   2: 8, // DIGIT_COUNT_EIGHT
 };
@@ -44,20 +45,32 @@ export function convertToOtpData(otp: MigrationOtpParameter): OtpData {
     }
   }
 
+  // Steam Guard accounts are TOTP accounts with their own code alphabet,
+  // marked with the `encoder` parameter used by Aegis and KeePassXC.
+  const isSteam = typeInfo.key === "steam";
+  if (isSteam) {
+    params.set("digits", String(STEAM_DIGITS));
+    params.set("encoder", "steam");
+  }
+
   // Add digits if it's not the default (6)
-  if (otp.digits && otp.digits !== 1) {
+  if (!isSteam && otp.digits && otp.digits !== 1) {
     const digitValue = DIGITS_VALUE_MAP[otp.digits];
     if (digitValue) {
       params.set("digits", String(digitValue));
     }
   }
+  // Add period if it's not the default (30 seconds)
+  if (typeInfo.key === "totp" && otp.period && otp.period !== 30) {
+    params.set("period", String(otp.period));
+  }
   // The protobuf library decodes int64 as a Long object. Convert it to a number.
   const counterValue = Number(otp.counter || 0);
   if (typeInfo.key === "hotp") {
     params.set("counter", counterValue.toString());
   }
   const otpAuthUrl = `otpauth://${
-    typeInfo.key
+    isSteam ? "totp" : typeInfo.key
   }/${encodedLabel}?${params.toString()}`;
 
   return {
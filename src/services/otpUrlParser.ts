@@ -1,27 +1,33 @@
 import pako from "pako";
-import { MigrationOtpParameter } from "../types";
+import { MigrationBatch, MigrationOtpParameter } from "../types";
 import { base64ToUint8Array, decodeProtobufPayload } from "./protobufProcessor";
 import { processLastPassQrJson } from "./lastPassFormatter";
 import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { STEAM_DIGITS } from "./steamProcessor";
 import { logger } from "./logger";
 
 /**
  * Decodes a standard otpauth:// URL into OTP parameters.
- * This is used for single-account QR codes, sometimes exported by apps like LastPass.
+ * This is used for single-account QR codes, sometimes exported by apps like LastPass,
+ * and for the URI lists in Ente Auth exports. Steam Guard accounts are written
+ * either as `otpauth://totp/...&encoder=steam` or, by Ente, as `otpauth://steam/...`.
  * @param otpUrlString The full otpauth:// URL.
  */
-async function decodeStandardOtpAuthUrl(
+export async function decodeStandardOtpAuthUrl(
   otpUrlString: string
 ): Promise<MigrationOtpParameter[]> {
   const url = new URL(otpUrlString);
+  const params = url.searchParams;
 
-  const type = url.hostname.toLowerCase(); // 'totp' or 'hotp'
-  if (type !== "totp" && type !== "hotp") {
+  let type = url.hostname.toLowerCase(); // 'totp', 'hotp' or 'steam'
+  if (type === "totp" && params.get("encoder")?.toLowerCase() === "steam") {
+    type = "steam";
+  }
+  if (type !== "totp" && type !== "hotp" && type !== "steam") {
     throw new Error(`Unsupported OTP type in URL: ${type}`);
   }
 
   const label = decodeURIComponent(url.pathname.substring(1));
-  const params = url.searchParams;
 
   const secretB32 = params.get("secret");
   if (!secretB32) {
@@ -55,10 +61,20 @@ async function decodeStandardOtpAuthUrl(
     issuer: issuer || "",
     secret: secretB32,
     algorithm: algorithmStr,
-    digits: digits === 6 || digits === 8 ? digits : 6,
+    digits:
+      type === "steam"
+        ? STEAM_DIGITS
+        : digits === 6 || digits === 8
+          ? digits
+          : 6,
     type: type,
   };
 
+  const periodStr = params.get("period");
+  if (type === "totp" && periodStr) {
+    rawAccount.period = parseInt(periodStr, 10);
+  }
+
   if (type === "hotp") {
     const counterStr = params.get("counter");
     if (!counterStr) {
@@ -90,6 +106,8 @@ async function decodeGoogleAuthenticatorPayload(
  * The format is a gzipped JSON string, which itself contains a
  * base64-encoded, gzipped JSON payload.
  * Format: Base64(Gzip(JSON({ content: Base64(Gzip(JSON_final)) })))
+ * When the export is split across several QR codes, each account records
+ * which part of the batch it came from.
  * @param dataBase64 The base64 data from the URL.
  */
 async function decodeLastPassPayload(
@@ -133,7 +151,19 @@ async function decodeLastPassPayload(
       );
 
       // The final JSON string can be processed by our formatter.
-      return processLastPassQrJson(finalJsonString);
+      const otps = processLastPassQrJson(finalJsonString);
+      if (
+        jsonWrapper.batchSize > 1 &&
+        typeof jsonWrapper.batchId === "string"
+      ) {
+        const batch: MigrationBatch = {
+          id: jsonWrapper.batchId,
+          index: jsonWrapper.batchIndex || 0,
+          size: jsonWrapper.batchSize,
+        };
+        return otps.map((otp) => ({ ...otp, batch }));
+      }
+      return otps;
     }
 
     // If we are here, the 'content' property was missing from the outer JSON.
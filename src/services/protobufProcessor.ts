@@ -1,5 +1,5 @@
 import protobuf from "protobufjs";
-import { MigrationOtpParameter } from "../types";
+import { MigrationBatch, MigrationOtpParameter } from "../types";
 import { logger } from "./logger";
 
 // Pre-load the protobuf definition once for better performance.
@@ -38,7 +38,19 @@ const toHexString = (bytes: Uint8Array) =>
   bytes.reduce((str, byte) => str + byte.toString(16).padStart(2, "0"), "");
 
 /**
- * Decodes the final protobuf binary data into OTP parameters.
+ * Formats a Google Authenticator batch ID, a signed 32-bit integer, as an
+ * unsigned hexadecimal string.
+ * @param batchId The batch ID from the protobuf payload.
+ * @returns The batch ID as 8 uppercase hexadecimal digits.
+ */
+export function formatGoogleBatchId(batchId: number): string {
+  return (batchId >>> 0).toString(16).toUpperCase().padStart(8, "0");
+}
+
+/**
+ * Decodes the final protobuf binary data into OTP parameters. When the
+ * export is split across several QR codes, each account records which
+ * QR code of the batch it came from.
  * @param protobufData The raw protobuf binary data.
  * @returns A promise that resolves to an array of OTP parameters.
  */
@@ -49,12 +61,28 @@ export async function decodeProtobufPayload(
   const MigrationPayload = root.lookupType("MigrationPayload");
 
   try {
-    const payload = MigrationPayload.decode(protobufData) as unknown as {
+    // Decoded messages keep unset fields such as an empty issuer on their
+    // prototype, which object spreads drop, so convert to plain objects.
+    const payload = MigrationPayload.toObject(
+      MigrationPayload.decode(protobufData),
+      { defaults: true, longs: Number }
+    ) as {
       otpParameters: MigrationOtpParameter[];
+      batchSize: number;
+      batchIndex: number;
+      batchId: number;
     };
     if (!payload || !Array.isArray(payload.otpParameters)) {
       throw new Error("Decoded payload is not in the expected format.");
     }
+    if (payload.batchSize > 1) {
+      const batch: MigrationBatch = {
+        id: formatGoogleBatchId(payload.batchId),
+        index: payload.batchIndex,
+        size: payload.batchSize,
+      };
+      return payload.otpParameters.map((otp) => ({ ...otp, batch }));
+    }
     return payload.otpParameters;
   } catch (error) {
     logger.error("Failed to parse final protobuf data:", error);
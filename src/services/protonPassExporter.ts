@@ -0,0 +1,71 @@
+/**
+ * This module handles exporting OTP secrets as a CSV file in the layout
+ * expected by Proton Pass's CSV importer. Each account becomes a login item
+ * whose TOTP field holds the account's otpauth URL.
+ */
+import { MigrationOtpParameter } from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { convertToOtpData } from "./otpFormatter";
+import { toCsv } from "./csvExporter";
+import { triggerDownload } from "./download";
+import { assertExportable } from "./exportCompatibility";
+
+/** The columns recognised by Proton Pass's CSV importer. */
+const PROTON_PASS_CSV_HEADERS = [
+  "name",
+  "url",
+  "email",
+  "username",
+  "password",
+  "note",
+  "totp",
+];
+
+/**
+ * Builds a Proton Pass CSV export from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The CSV content.
+ */
+export function exportToProtonPassCsv(otps: MigrationOtpParameter[]): string {
+  // The app ignores the steam encoder and would show numeric codes instead.
+  assertExportable(otps, {
+    appName: "Proton Pass",
+    supportsSteam: false,
+    supportsCustomPeriods: true,
+  });
+
+  const rows = otps.map((otp) => {
+    const otpData = convertToOtpData(otp);
+    // Proton Pass keeps email addresses and usernames in separate fields.
+    const isEmail = otpData.name.includes("@");
+    return [
+      otp.issuer || otpData.name,
+      "", // url
+      isEmail ? otpData.name : "",
+      isEmail ? "" : otpData.name,
+      "", // password
+      "", // note
+      otpData.url,
+    ];
+  });
+  return toCsv(PROTON_PASS_CSV_HEADERS, rows);
+}
+
+/**
+ * Exports the given OTPs as a CSV file that can be imported into Proton Pass.
+ * @param otpsToExport The OTP parameters to export.
+ */
+export function downloadAsProtonPassCsv(
+  otpsToExport: MigrationOtpParameter[]
+): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  triggerDownload(
+    "proton_pass_import.csv",
+    exportToProtonPassCsv(otpsToExport),
+    "text/csv;charset=utf-8;"
+  );
+}
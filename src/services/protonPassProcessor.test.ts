@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { encode } from "thirty-two";
+import { MigrationOtpParameter } from "../types";
+import { processJson } from "./jsonProcessor";
+import { processCsv } from "./csvProcessor";
+import { processProtonPassZip } from "./protonPassProcessor";
+import { exportToProtonPassCsv } from "./protonPassExporter";
+import { readTestData, readTestText } from "../../tests/testHelpers";
+
+/**
+ * Checks the OTPs of the JSON test export. The trashed item must not be
+ * imported.
+ */
+function expectTestExportOtps(otpParameters: MigrationOtpParameter[]) {
+  expect(otpParameters).toHaveLength(3);
+  const [github, bareSecret, extraField] = otpParameters;
+
+  // An otpauth URI without an issuer takes the item title as its issuer.
+  expect(github.name).toBe("octocat");
+  expect(github.issuer).toBe("GitHub");
+  expect(encode(github.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+  // A bare secret is named after the item's email when it has no username.
+  expect(bareSecret.name).toBe("bob@example.com");
+  expect(bareSecret.issuer).toBe("Example Corp");
+  expect(encode(bareSecret.secret).toString()).toBe(
+    "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+  );
+
+  expect(extraField.name).toBe("bob");
+  expect(extraField.issuer).toBe("Backup");
+  expect(extraField.digits).toBe(2); // 8 digits
+  expect(extraField.period).toBe(60);
+}
+
+describe("Proton Pass Import", () => {
+  it("should correctly parse a JSON export", async () => {
+    const otpParameters = await processJson(
+      readTestText("protonpass_export.json")
+    );
+    expectTestExportOtps(otpParameters);
+  });
+
+  it("should correctly parse a ZIP export", async () => {
+    const otpParameters = await processProtonPassZip(
+      readTestData("protonpass_export.zip")
+    );
+    expectTestExportOtps(otpParameters);
+  });
+
+  it("should reject a ZIP file that is not a Proton Pass export", async () => {
+    await expect(
+      processProtonPassZip(readTestData("1password_export.1pux"))
+    ).rejects.toThrow(/Unsupported ZIP file/);
+  });
+
+  it("should correctly parse a CSV export with multi-line notes", async () => {
+    const otpParameters = await processCsv(
+      readTestText("protonpass_export.csv")
+    );
+
+    expect(otpParameters).toHaveLength(2);
+    const [github, bareSecret] = otpParameters;
+    expect(github.name).toBe("octocat");
+    expect(github.issuer).toBe("GitHub");
+    expect(bareSecret.name).toBe("bob@example.com");
+    expect(bareSecret.issuer).toBe("Example Corp");
+  });
+});
+
+describe("Proton Pass Export", () => {
+  const mockOtps: MigrationOtpParameter[] = [
+    {
+      secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+      name: "test@example.com",
+      issuer: "Test Issuer",
+      algorithm: 1, // SHA1
+      digits: 1, // 6 digits
+      type: 2, // TOTP
+      counter: 0,
+    },
+    {
+      secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+      name: "plain-user",
+      issuer: "",
+      algorithm: 2, // SHA256
+      digits: 2, // 8 digits
+      type: 2, // TOTP
+      counter: 0,
+      period: 60,
+    },
+  ];
+
+  it("should export a Proton Pass CSV that can be imported again", async () => {
+    const csv = exportToProtonPassCsv(mockOtps);
+    const lines = csv.split("\n");
+    expect(lines[0]).toBe("name,url,email,username,password,note,totp");
+    expect(lines[1]).toMatch(/^Test Issuer,,test@example.com,,,,otpauth:/);
+    expect(lines[2]).toMatch(/^plain-user,,,plain-user,,,otpauth:/);
+
+    // Accounts without an issuer take the item name as their issuer.
+    const imported = await processCsv(csv);
+    expect(imported).toEqual([
+      expect.objectContaining(mockOtps[0]),
+      expect.objectContaining({ ...mockOtps[1], issuer: "plain-user" }),
+    ]);
+  });
+});
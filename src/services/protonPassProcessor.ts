@@ -0,0 +1,173 @@
+/**
+ * This module handles importing Proton Pass exports: the JSON export (plain,
+ * or inside the ZIP archive Proton Pass writes when files are included) and
+ * the CSV export. Login items keep their TOTP in `totpUri`, either as a full
+ * `otpauth://` URI or as a bare Base32 secret.
+ */
+import {
+  MigrationOtpParameter,
+  ProtonPassExport,
+  ProtonPassItem,
+} from "../types";
+import { parseOtpFieldValue } from "./onePasswordProcessor";
+import { readZipFile } from "./zipReader";
+import { logger } from "./logger";
+
+/** The path of the vault data within a Proton Pass ZIP export. */
+const PROTON_PASS_DATA_FILE = "Proton Pass/data.json";
+
+/** The item state Proton Pass uses for items in the trash. */
+const PROTON_PASS_TRASHED_STATE = 2;
+
+/**
+ * Type guard to check if the parsed JSON is a Proton Pass export.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like a Proton Pass export.
+ */
+export function isProtonPassExport(data: unknown): data is ProtonPassExport {
+  const vaults = (data as ProtonPassExport)?.vaults;
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as ProtonPassExport).encrypted === "boolean" &&
+    typeof vaults === "object" &&
+    vaults !== null &&
+    !Array.isArray(vaults)
+  );
+}
+
+/**
+ * Type guard to check if the header row of a CSV file is from a Proton Pass
+ * CSV export.
+ * @param headers The column names.
+ * @returns True if the CSV has Proton Pass's name and totp columns.
+ */
+export function isProtonPassCsv(headers: string[]): boolean {
+  return headers.includes("name") && headers.includes("totp");
+}
+
+/**
+ * Converts a TOTP value into OTP parameters. Values without an issuer or an
+ * account name take them from the item.
+ * @param value The otpauth URI or bare Base32 secret.
+ * @param title The title of the item.
+ * @param username The username or email of the item.
+ * @returns A promise that resolves with the OTP parameters.
+ */
+async function parseProtonPassTotp(
+  value: string,
+  title: string,
+  username: string
+): Promise<MigrationOtpParameter[]> {
+  const otps = await parseOtpFieldValue(value, title, username || title);
+  return otps.map((otp) => ({ ...otp, name: otp.name || username || title }));
+}
+
+/**
+ * Extracts the OTP parameters from a single Proton Pass item.
+ * @param item The Proton Pass item.
+ * @returns A promise that resolves with the item's OTP parameters, if any.
+ */
+async function processProtonPassItem(
+  item: ProtonPassItem
+): Promise<MigrationOtpParameter[]> {
+  const title = item.data?.metadata?.name || "";
+  const content = item.data?.content;
+  const username =
+    content?.itemUsername || content?.itemEmail || content?.username || "";
+
+  const values = [
+    content?.totpUri,
+    ...(item.data?.extraFields || [])
+      .filter((field) => field.type === "totp")
+      .map((field) => field.data?.totpUri),
+  ];
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const value of values) {
+    if (!value?.trim()) continue;
+    try {
+      otpParameters.push(
+        ...(await parseProtonPassTotp(value.trim(), title, username))
+      );
+    } catch (error: any) {
+      logger.warn(`Skipping invalid TOTP in Proton Pass item: ${title}`, error);
+    }
+  }
+  return otpParameters;
+}
+
+/**
+ * Processes a Proton Pass JSON export. Items in the trash are ignored.
+ * @param data The parsed Proton Pass export.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processProtonPassExport(
+  data: ProtonPassExport
+): Promise<MigrationOtpParameter[]> {
+  if (data.encrypted) {
+    throw new Error(
+      "Encrypted Proton Pass exports are not supported. Please export your vault without encryption."
+    );
+  }
+
+  const items = Object.values(data.vaults).flatMap(
+    (vault) => vault.items || []
+  );
+  const results = await Promise.all(
+    items
+      .filter((item) => item.state !== PROTON_PASS_TRASHED_STATE)
+      .map(processProtonPassItem)
+  );
+  return results.flat();
+}
+
+/**
+ * Processes a Proton Pass ZIP export, which holds the JSON export.
+ * @param fileBytes The raw contents of the ZIP archive.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processProtonPassZip(
+  fileBytes: Uint8Array
+): Promise<MigrationOtpParameter[]> {
+  const dataBytes = readZipFile(fileBytes, PROTON_PASS_DATA_FILE);
+  if (!dataBytes) {
+    throw new Error(
+      `Unsupported ZIP file: ${PROTON_PASS_DATA_FILE} not found. Only Proton Pass exports are supported.`
+    );
+  }
+
+  const data: unknown = JSON.parse(new TextDecoder().decode(dataBytes));
+  if (!isProtonPassExport(data)) {
+    throw new Error("Invalid Proton Pass export: vaults not found.");
+  }
+  return processProtonPassExport(data);
+}
+
+/**
+ * Processes the rows of a Proton Pass CSV export.
+ * @param headers The column names.
+ * @param rows The data rows.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processProtonPassCsv(
+  headers: string[],
+  rows: string[][]
+): Promise<MigrationOtpParameter[]> {
+  const column = (row: string[], name: string) =>
+    row[headers.indexOf(name)]?.trim() || "";
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const row of rows) {
+    const totp = column(row, "totp");
+    if (!totp) continue;
+    const title = column(row, "name");
+    const username = column(row, "username") || column(row, "email");
+    try {
+      otpParameters.push(...(await parseProtonPassTotp(totp, title, username)));
+    } catch (error: any) {
+      logger.warn(`Skipping invalid TOTP in Proton Pass row: ${title}`, error);
+    }
+  }
+  return otpParameters;
+}
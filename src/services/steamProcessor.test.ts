@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { encode } from "thirty-two";
+import { AegisDatabase, MigrationOtpParameter } from "../types";
+import { processJson } from "./jsonProcessor";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { convertToOtpData } from "./otpFormatter";
+import { exportToAegisVault } from "./aegisExporter";
+import { exportToBitwardenJson } from "./bitwardenExporter";
+import { exportToGoogleAuthenticator, exportToLastPass } from "./otpExporter";
+import { exportToApplePasswordsCsv } from "./applePasswordsExporter";
+import { exportToProtonPassCsv } from "./protonPassExporter";
+import { exportToOnePasswordCsv } from "./onePasswordExporter";
+import { readTestText } from "../../tests/testHelpers";
+
+const steamOtp: MigrationOtpParameter = {
+  secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+  name: "gabe",
+  issuer: "Steam",
+  algorithm: 1, // SHA1
+  digits: 0,
+  type: 3, // Steam
+  counter: 0,
+};
+
+describe("Steam Guard Import", () => {
+  it("should correctly parse a SteamDesktopAuthenticator maFile", async () => {
+    const fileContent = readTestText("steam_account.maFile");
+    const otpParameters = await processJson(fileContent);
+
+    expect(otpParameters).toHaveLength(1);
+    const otp = otpParameters[0];
+    expect(otp.name).toBe("gabe");
+    expect(otp.issuer).toBe("Steam");
+    expect(otp.type).toBe(3); // Steam
+    expect(encode(otp.secret).toString()).toBe(
+      "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+    );
+  });
+
+  it.each([
+    "otpauth://totp/Steam:gabe?secret=JBSWY3DPEHPK3PXP&issuer=Steam&encoder=steam",
+    "otpauth://steam/Steam:gabe?secret=JBSWY3DPEHPK3PXP&issuer=Steam&digits=5",
+  ])("should recognise a Steam otpauth URL: %s", async (url) => {
+    const [otp] = await getOtpParametersFromUrl(url);
+    expect(otp.name).toBe("gabe");
+    expect(otp.type).toBe(3); // Steam
+  });
+});
+
+describe("Steam Guard Export", () => {
+  it("should write Steam accounts as otpauth URLs with the steam encoder", async () => {
+    const otpData = convertToOtpData(steamOtp);
+    expect(otpData.type).toBe("steam");
+    expect(otpData.typeDescription).toBe("Steam Guard");
+    expect(otpData.url).toMatch(/^otpauth:\/\/totp\/gabe\?/);
+    expect(new URL(otpData.url).searchParams.get("encoder")).toBe("steam");
+
+    const [imported] = await getOtpParametersFromUrl(otpData.url);
+    expect(imported).toEqual(expect.objectContaining({ ...steamOtp }));
+  });
+
+  it("should write Steam accounts to Aegis and Bitwarden", async () => {
+    const vault = await exportToAegisVault([steamOtp]);
+    expect(typeof vault.db).toBe("object");
+    const [entry] = (vault.db as AegisDatabase).entries;
+    expect(entry.type).toBe("steam");
+    expect(entry.info.digits).toBe(5);
+
+    const bitwarden = exportToBitwardenJson([steamOtp]);
+    expect(bitwarden.items[0].login!.totp).toBe("steam://JBSWY3DPEHPK3PXP");
+  });
+
+  it("should refuse to export Steam accounts to Google or LastPass", async () => {
+    await expect(exportToGoogleAuthenticator([steamOtp])).rejects.toThrow(
+      "Google Authenticator does not support Steam Guard accounts."
+    );
+    await expect(exportToLastPass([steamOtp])).rejects.toThrow(
+      "LastPass Authenticator does not support Steam Guard accounts."
+    );
+  });
+
+  it.each([
+    ["Apple Passwords", exportToApplePasswordsCsv],
+    ["Proton Pass", exportToProtonPassCsv],
+    ["1Password", exportToOnePasswordCsv],
+  ])("should refuse to export Steam accounts to %s", (appName, exportToCsv) => {
+    expect(() => exportToCsv([steamOtp])).toThrow(
+      `${appName} does not support Steam Guard accounts. Deselect the 1 Steam account and try again.`
+    );
+  });
+});
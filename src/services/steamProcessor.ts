@@ -0,0 +1,82 @@
+/**
+ * This module handles Steam Guard secrets: SteamDesktopAuthenticator
+ * `.maFile` files, which hold the Base64 `shared_secret` of a Steam account,
+ * and the `steam://` secrets stored by password managers such as Bitwarden.
+ * Steam Guard codes use the TOTP algorithm with a custom 5-character alphabet.
+ */
+import { encode as base32Encode } from "thirty-two";
+import { MigrationOtpParameter, SteamMaFile } from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { base64ToUint8Array } from "./protobufProcessor";
+
+/** The issuer given to Steam accounts that have none. */
+export const STEAM_ISSUER = "Steam";
+
+/** The number of characters in a Steam Guard code. */
+export const STEAM_DIGITS = 5;
+
+/** The prefix used for Steam Guard secrets, e.g. by Bitwarden. */
+export const STEAM_URI_PREFIX = "steam://";
+
+/**
+ * Type guard to check if the parsed JSON is a SteamDesktopAuthenticator
+ * `.maFile`.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like a `.maFile`.
+ */
+export function isSteamMaFile(data: unknown): data is SteamMaFile {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as SteamMaFile).shared_secret === "string" &&
+    typeof (data as SteamMaFile).account_name === "string"
+  );
+}
+
+/**
+ * Converts a `steam://` secret into the raw account format.
+ * @param uri The `steam://` URI holding the Base32 secret.
+ * @param name The account name.
+ * @param issuer The issuer, which defaults to Steam.
+ * @returns A raw Steam Guard account.
+ */
+export function mapSteamUri(
+  uri: string,
+  name: string,
+  issuer = STEAM_ISSUER
+): RawOtpAccount {
+  const secret = uri.substring(STEAM_URI_PREFIX.length);
+  return {
+    name,
+    issuer,
+    secret: secret.replace(/[\s-]/g, "").toUpperCase(),
+    algorithm: "SHA1",
+    digits: STEAM_DIGITS,
+    type: "steam",
+  };
+}
+
+/**
+ * Processes a SteamDesktopAuthenticator `.maFile`.
+ * @param maFile The parsed `.maFile`.
+ * @returns An array holding the account's OTP parameters.
+ */
+export function processSteamMaFile(
+  maFile: SteamMaFile
+): MigrationOtpParameter[] {
+  const secret = base64ToUint8Array(maFile.shared_secret);
+  if (secret.length === 0) {
+    throw new Error("Invalid Steam maFile: 'shared_secret' is empty.");
+  }
+
+  return [
+    mapToMigrationOtpParameter({
+      name: maFile.account_name,
+      issuer: STEAM_ISSUER,
+      secret: base32Encode(secret).toString(),
+      algorithm: "SHA1",
+      digits: STEAM_DIGITS,
+      type: "steam",
+    }),
+  ];
+}
@@ -0,0 +1,35 @@
+/**
+ * This module handles exporting OTP secrets as a plain-text file with one
+ * `otpauth://` URI per line, which can be read back by this tool and by other
+ * apps and tools that accept URI lists.
+ */
+import { MigrationOtpParameter } from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { convertToOtpData } from "./otpFormatter";
+import { triggerDownload } from "./download";
+
+/**
+ * Builds a list of otpauth URIs from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The text content, with one URI per line.
+ */
+export function exportToTextUris(otps: MigrationOtpParameter[]): string {
+  return otps.map((otp) => `${convertToOtpData(otp).url}\n`).join("");
+}
+
+/**
+ * Exports the given OTPs as a text file of otpauth URIs.
+ * @param otpsToExport The OTP parameters to export.
+ */
+export function downloadAsText(otpsToExport: MigrationOtpParameter[]): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  triggerDownload(
+    "otp_secrets.txt",
+    exportToTextUris(otpsToExport),
+    "text/plain;charset=utf-8;"
+  );
+}
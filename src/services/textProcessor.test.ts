@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+import { MigrationOtpParameter } from "../types";
+import { processTextUriList } from "./textProcessor";
+import { exportToTextUris } from "./textExporter";
+import { readTestText } from "../../tests/testHelpers";
+
+// Spaces, ampersands and non-ASCII characters check the URI encoding.
+const mockOtps: MigrationOtpParameter[] = [
+  {
+    secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+    name: "zoë smith",
+    issuer: "Black & Decker",
+    algorithm: 2, // SHA256
+    digits: 2, // 8 digits
+    type: 2, // TOTP
+    counter: 0,
+    period: 60,
+  },
+  {
+    secret: new Uint8Array([71, 111, 111, 100, 98, 121, 101, 33]),
+    name: "counter-account",
+    issuer: "CounterIssuer",
+    algorithm: 1, // SHA1
+    digits: 1, // 6 digits
+    type: 1, // HOTP
+    counter: 42,
+  },
+];
+
+describe("Text URI List Import", () => {
+  it("should read every URI and skip comments", async () => {
+    const onInvalidLine = vi.fn();
+    const otpParameters = await processTextUriList(
+      readTestText("example_export.txt"),
+      onInvalidLine
+    );
+
+    expect(onInvalidLine).not.toHaveBeenCalled();
+    expect(otpParameters).toHaveLength(6);
+    expect(otpParameters[0].name).toBe("pi@raspberrypi");
+    expect(otpParameters[0].issuer).toBe("raspberrypi");
+    expect(otpParameters[4].name).toBe("hotp demo");
+    expect(Number(otpParameters[4].counter)).toBe(4);
+    expect(otpParameters[5].name).toBe("encoding: ¿äÄéÉ? (demo)");
+  });
+
+  it("should accept the prefix written by zbarimg", async () => {
+    const otpParameters = await processTextUriList(
+      readTestText("test_export_wrong_prefix.txt")
+    );
+    expect(otpParameters).toHaveLength(1);
+    expect(otpParameters[0].name).toBe("pi@raspberrypi");
+  });
+
+  it("should report invalid lines by number", async () => {
+    const onInvalidLine = vi.fn();
+    const content = [
+      "# A comment",
+      "otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP",
+      readTestText("test_export_wrong_content.txt").trim(),
+      "",
+      "otpauth://totp/bob",
+    ].join("\r\n");
+    const otpParameters = await processTextUriList(content, onInvalidLine);
+
+    expect(otpParameters).toHaveLength(1);
+    expect(otpParameters[0].name).toBe("alice");
+    expect(onInvalidLine).toHaveBeenCalledTimes(2);
+    expect(onInvalidLine).toHaveBeenNthCalledWith(
+      1,
+      3,
+      "QR code is not a supported format."
+    );
+    expect(onInvalidLine).toHaveBeenNthCalledWith(
+      2,
+      5,
+      "Missing 'secret' parameter in otpauth URL."
+    );
+  });
+});
+
+describe("Text URI List Export", () => {
+  it("should export one otpauth URI per line that can be imported again", async () => {
+    const text = exportToTextUris(mockOtps);
+    const lines = text.split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      "otpauth://totp/zo%C3%AB%20smith?secret=JBSWY3DPEHPK3PXP&issuer=Black+%26+Decker&algorithm=SHA256&digits=8&period=60"
+    );
+    expect(lines[1]).toBe(
+      "otpauth://hotp/counter-account?secret=I5XW6ZDCPFSSC&issuer=CounterIssuer&counter=42"
+    );
+
+    const imported = await processTextUriList(text);
+    expect(imported).toEqual(
+      mockOtps.map((otp) => expect.objectContaining(otp))
+    );
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * This module handles importing plain-text files that hold one `otpauth://`
+ * or `otpauth-migration://` URI per line, as written by Ente Auth's plaintext
+ * export, WinAuth, `ykman oath accounts uri` and `zbarimg`. Empty lines and
+ * lines starting with `#` are ignored.
+ */
+import { MigrationOtpParameter } from "../types";
+import { getOtpParametersFromUrl } from "./otpUrlParser";
+import { logger } from "./logger";
+
+/** The prefix `zbarimg` writes before the contents of each QR code. */
+const ZBARIMG_PREFIX = "QR-Code:";
+
+/**
+ * Processes a text file containing one OTP URI per line. Invalid lines are
+ * skipped, so that one bad line does not prevent the others from loading.
+ * @param fileContent The string content of the text file.
+ * @param onInvalidLine An optional callback used to report each invalid line,
+ * with its 1-based line number and the reason it could not be read.
+ * @returns A promise that resolves to an array of OTP parameters.
+ */
+export async function processTextUriList(
+  fileContent: string,
+  onInvalidLine?: (lineNumber: number, message: string) => void
+): Promise<MigrationOtpParameter[]> {
+  const lines = fileContent.split(/\r?\n/);
+  const allOtpParams: MigrationOtpParameter[] = [];
+
+  for (const [index, rawLine] of lines.entries()) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    if (line.startsWith(ZBARIMG_PREFIX)) {
+      line = line.substring(ZBARIMG_PREFIX.length);
+    }
+
+    try {
+      allOtpParams.push(...(await getOtpParametersFromUrl(line)));
+    } catch (error: any) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Skipping invalid OTP URI on line ${index + 1}:`, error);
+      onInvalidLine?.(index + 1, message);
+    }
+  }
+  return allOtpParams;
+}
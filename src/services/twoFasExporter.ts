@@ -0,0 +1,114 @@
+/**
+ * This module handles exporting OTP secrets as a 2FAS Authenticator `.2fas`
+ * backup file, which can be imported from the 2FAS app's settings.
+ */
+import { encode as base32Encode } from "thirty-two";
+import { MigrationOtpParameter, TwoFasBackup, TwoFasService } from "../types";
+import { announceToScreenReader } from "../ui/notifications";
+import { getOtpTypeInfo } from "../ui/otp";
+import { ALGORITHM_STRING_MAP, DIGITS_VALUE_MAP } from "./otpFormatter";
+import { STEAM_DIGITS } from "./steamProcessor";
+import { triggerDownload } from "./download";
+
+/**
+ * Default values used when constructing a 2FAS backup. These are based on
+ * observed exports from the 2FAS Android app.
+ */
+const TWOFAS_DEFAULTS = {
+  SCHEMA_VERSION: 4,
+  APP_VERSION_CODE: 5000000,
+  APP_VERSION_NAME: "5.0.0",
+  APP_ORIGIN: "android",
+  PERIOD: 30,
+  SOURCE: "Link",
+  // The ID of the default icon collection, used for label-only icons.
+  ICON_COLLECTION_ID: "a5b3fb65-4ec5-43e6-8ec1-49e24ca9e7ad",
+};
+
+/**
+ * Converts an OTP parameter into a 2FAS service.
+ * @param otp The OTP parameter to convert.
+ * @param index The position of the service in the exported list.
+ * @param updatedAt The timestamp to record as the last update time.
+ * @returns The 2FAS service.
+ */
+function mapToTwoFasService(
+  otp: MigrationOtpParameter,
+  index: number,
+  updatedAt: number
+): TwoFasService {
+  const typeInfo = getOtpTypeInfo(otp.type);
+  const serviceName = otp.issuer || otp.name;
+  const service: TwoFasService = {
+    name: serviceName,
+    secret: base32Encode(otp.secret).toString().replace(/=/g, ""),
+    updatedAt,
+    otp: {
+      label: otp.issuer ? `${otp.issuer}:${otp.name}` : otp.name,
+      account: otp.name,
+      issuer: otp.issuer,
+      digits:
+        typeInfo.key === "steam"
+          ? STEAM_DIGITS
+          : DIGITS_VALUE_MAP[otp.digits] || 6,
+      algorithm: ALGORITHM_STRING_MAP[otp.algorithm] || "SHA1",
+      tokenType: typeInfo.key.toUpperCase(),
+      source: TWOFAS_DEFAULTS.SOURCE,
+    },
+    order: { position: index },
+    icon: {
+      selected: "Label",
+      label: {
+        text: serviceName.substring(0, 2).toUpperCase(),
+        backgroundColor: "Default",
+      },
+      iconCollection: { id: TWOFAS_DEFAULTS.ICON_COLLECTION_ID },
+    },
+  };
+
+  if (typeInfo.key === "hotp") {
+    // The protobuf library decodes int64 as a Long object. Convert it to a number.
+    service.otp.counter = Number(otp.counter || 0);
+  } else {
+    service.otp.period = otp.period || TWOFAS_DEFAULTS.PERIOD;
+  }
+  return service;
+}
+
+/**
+ * Builds a plaintext 2FAS backup from a list of OTP parameters.
+ * @param otps The OTP parameters to export.
+ * @returns The 2FAS backup object.
+ */
+export function exportToTwoFasBackup(
+  otps: MigrationOtpParameter[]
+): TwoFasBackup {
+  const now = Date.now();
+  return {
+    services: otps.map((otp, index) => mapToTwoFasService(otp, index, now)),
+    groups: [],
+    updatedAt: now,
+    schemaVersion: TWOFAS_DEFAULTS.SCHEMA_VERSION,
+    appVersionCode: TWOFAS_DEFAULTS.APP_VERSION_CODE,
+    appVersionName: TWOFAS_DEFAULTS.APP_VERSION_NAME,
+    appOrigin: TWOFAS_DEFAULTS.APP_ORIGIN,
+  };
+}
+
+/**
+ * Exports the given OTPs as a 2FAS backup file.
+ * @param otpsToExport The OTP parameters to export.
+ */
+export function downloadAsTwoFas(otpsToExport: MigrationOtpParameter[]): void {
+  if (otpsToExport.length === 0) {
+    announceToScreenReader("No data to export.");
+    return;
+  }
+
+  const backup = exportToTwoFasBackup(otpsToExport);
+  triggerDownload(
+    "otp_secrets.2fas",
+    JSON.stringify(backup),
+    "application/json;charset=utf-8;"
+  );
+}
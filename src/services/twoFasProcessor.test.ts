@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import { encode } from "thirty-two";
+import { processJson } from "./jsonProcessor";
+import { exportToTwoFasBackup } from "./twoFasExporter";
+import { readTestText } from "../../tests/testHelpers";
+
+const mockTwoFasBackup = `
+{
+  "services": [
+    {
+      "name": "TestService",
+      "secret": "JBSWY3DPEHPK3PXP",
+      "updatedAt": 1700000000000,
+      "otp": {
+        "label": "TestService:test@example.com",
+        "account": "test@example.com",
+        "issuer": "TestService",
+        "digits": 8,
+        "period": 60,
+        "algorithm": "SHA512",
+        "tokenType": "TOTP",
+        "source": "Link"
+      },
+      "order": { "position": 0 }
+    },
+    {
+      "name": "Steam",
+      "secret": "MFRGGZDFMZTWQ2LK",
+      "otp": { "account": "gamer", "digits": 5, "tokenType": "STEAM" }
+    }
+  ],
+  "groups": [],
+  "updatedAt": 1700000000000,
+  "schemaVersion": 4,
+  "appOrigin": "android"
+}
+`;
+
+describe("2FAS Backup Import", () => {
+  it("should correctly parse a plaintext 2FAS backup", async () => {
+    const otpParameters = await processJson(mockTwoFasBackup);
+
+    expect(otpParameters).toHaveLength(2);
+    const [otp, steam] = otpParameters;
+    expect(otp.name).toBe("test@example.com");
+    expect(otp.issuer).toBe("TestService");
+    expect(otp.algorithm).toBe(3); // SHA512
+    expect(otp.digits).toBe(2); // 8 digits
+    expect(otp.period).toBe(60);
+    expect(encode(otp.secret).toString()).toBe("JBSWY3DPEHPK3PXP");
+
+    expect(steam.name).toBe("gamer");
+    expect(steam.issuer).toBe("Steam");
+    expect(steam.type).toBe(3); // Steam
+  });
+
+  it("should decrypt a password-protected 2FAS backup", async () => {
+    const encryptedBackup = readTestText("2fas_encrypted.2fas");
+    const requestPassword = vi.fn().mockResolvedValue("test");
+    const otpParameters = await processJson(encryptedBackup, requestPassword);
+
+    expect(requestPassword).toHaveBeenCalledTimes(1);
+    expect(otpParameters).toHaveLength(2);
+    expect(otpParameters[0].name).toBe("test@example.com");
+    // The issuer falls back to the service name when the OTP has none.
+    expect(otpParameters[1].issuer).toBe("CounterService");
+    expect(otpParameters[1].type).toBe(1); // HOTP
+    expect(otpParameters[1].counter).toBe(5);
+  });
+});
+
+describe("2FAS Backup Export", () => {
+  it("should export a backup that can be imported again", async () => {
+    const backup = exportToTwoFasBackup([
+      {
+        secret: new Uint8Array([72, 101, 108, 108, 111, 33, 222, 173, 190, 239]),
+        name: "test-account",
+        issuer: "TestIssuer",
+        algorithm: 1, // SHA1
+        digits: 1, // 6 digits
+        type: 1, // HOTP
+        counter: 9,
+      },
+    ]);
+
+    expect(backup.schemaVersion).toBe(4);
+    expect(backup.services[0].otp.tokenType).toBe("HOTP");
+    expect(backup.services[0].secret).toBe("JBSWY3DPEHPK3PXP");
+
+    const imported = await processJson(JSON.stringify(backup));
+    expect(imported).toHaveLength(1);
+    expect(imported[0].name).toBe("test-account");
+    expect(imported[0].issuer).toBe("TestIssuer");
+    expect(imported[0].counter).toBe(9);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * This module handles importing `.2fas` backups from 2FAS Authenticator. It
+ * supports both plaintext backups and password-protected backups, whose
+ * services are encrypted with PBKDF2-derived AES-GCM keys.
+ */
+import {
+  MigrationOtpParameter,
+  PasswordProvider,
+  TwoFasBackup,
+  TwoFasService,
+} from "../types";
+import { mapToMigrationOtpParameter, RawOtpAccount } from "./otpDataMapper";
+import { base64ToUint8Array } from "./protobufProcessor";
+import { aesGcmDecrypt, decryptWithPassword, pbkdf2 } from "./encryption";
+import { logger } from "./logger";
+
+/** The PBKDF2 parameters used by 2FAS to derive the backup encryption key. */
+const TWOFAS_KDF = {
+  ITERATIONS: 10000,
+  KEY_LENGTH: 32,
+};
+
+/**
+ * Type guard to check if the parsed JSON is a 2FAS backup.
+ * @param data The parsed JSON data.
+ * @returns True if the data looks like a 2FAS backup.
+ */
+export function isTwoFasBackup(data: unknown): data is TwoFasBackup {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    Array.isArray((data as TwoFasBackup).services) &&
+    typeof (data as TwoFasBackup).schemaVersion === "number"
+  );
+}
+
+/**
+ * Converts a single 2FAS service into the raw account format.
+ * @param service The 2FAS service.
+ * @returns A raw account, or null if the token type is not supported.
+ */
+function mapTwoFasService(service: TwoFasService): RawOtpAccount | null {
+  const otp = service.otp || {};
+  const tokenType = (otp.tokenType || "TOTP").toLowerCase();
+  if (tokenType !== "totp" && tokenType !== "hotp" && tokenType !== "steam") {
+    return null;
+  }
+
+  return {
+    name: otp.account || otp.label || "",
+    issuer: otp.issuer || service.name || "",
+    secret: service.secret,
+    algorithm: otp.algorithm || "SHA1",
+    digits: otp.digits || 6,
+    type: tokenType,
+    counter: tokenType === "hotp" ? otp.counter : undefined,
+    period: tokenType === "totp" ? otp.period : undefined,
+  };
+}
+
+/**
+ * Decrypts the `servicesEncrypted` field of a password-protected backup.
+ * @param servicesEncrypted The "ciphertext:salt:iv" string.
+ * @param requestPassword The callback used to ask the user for the password.
+ * @returns A promise that resolves with the decrypted services.
+ */
+async function decryptTwoFasServices(
+  servicesEncrypted: string,
+  requestPassword?: PasswordProvider
+): Promise<TwoFasService[]> {
+  const [data, salt, iv] = servicesEncrypted
+    .split(":")
+    .map((part) => base64ToUint8Array(part));
+  if (!data || !salt || !iv) {
+    throw new Error("Invalid 2FAS backup: encrypted services are malformed.");
+  }
+
+  return decryptWithPassword(
+    requestPassword,
+    "Enter the password for this 2FAS backup.",
+    async (password) => {
+      const key = await pbkdf2(
+        password,
+        salt,
+        TWOFAS_KDF.ITERATIONS,
+        "SHA-256",
+        TWOFAS_KDF.KEY_LENGTH
+      );
+      const decrypted = await aesGcmDecrypt(key, iv, data);
+      if (!decrypted) return null;
+      return JSON.parse(new TextDecoder().decode(decrypted)) as TwoFasService[];
+    }
+  );
+}
+
+/**
+ * Processes a 2FAS backup, decrypting it first if necessary.
+ * @param backup The parsed 2FAS backup.
+ * @param requestPassword The callback used to ask the user for the password
+ * of an encrypted backup.
+ * @returns A promise that resolves with an array of OTP parameters.
+ */
+export async function processTwoFasBackup(
+  backup: TwoFasBackup,
+  requestPassword?: PasswordProvider
+): Promise<MigrationOtpParameter[]> {
+  const services = backup.servicesEncrypted
+    ? await decryptTwoFasServices(backup.servicesEncrypted, requestPassword)
+    : backup.services;
+
+  const otpParameters: MigrationOtpParameter[] = [];
+  for (const service of services) {
+    const rawAccount = mapTwoFasService(service);
+    if (!rawAccount) {
+      logger.warn(
+        `Skipping unsupported 2FAS token type "${service.otp?.tokenType}": ${service.name}`
+      );
+      continue;
+    }
+    otpParameters.push(mapToMigrationOtpParameter(rawAccount));
+  }
+  return otpParameters;
+}
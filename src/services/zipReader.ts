@@ -0,0 +1,147 @@
+/**
+ * This module contains a minimal ZIP archive reader, used for importing
+ * exports that are packaged as ZIP files (such as 1Password's `.1pux`).
+ * It supports stored and deflated entries, which covers the archives written
+ * by password managers. ZIP64 and encrypted archives are not supported.
+ */
+import pako from "pako";
+
+// --- ZIP Format Constants ---
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_MIN_SIZE = 22;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const COMPRESSION_STORED = 0;
+const COMPRESSION_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/**
+ * Describes a single file in a ZIP archive, as listed in its central
+ * directory.
+ */
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  flags: number;
+}
+
+/**
+ * Finds the offset of the "end of central directory" record, which is
+ * located at the end of the archive, before an optional comment.
+ * @param view A view of the archive.
+ * @returns The offset of the record.
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const lastPossible = view.byteLength - END_OF_CENTRAL_DIRECTORY_MIN_SIZE;
+  const firstPossible = Math.max(0, lastPossible - MAX_COMMENT_LENGTH);
+  for (let offset = lastPossible; offset >= firstPossible; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error("Invalid ZIP file: end of central directory not found.");
+}
+
+/**
+ * Lists the files in a ZIP archive.
+ * @param bytes The contents of the archive.
+ * @returns The entries of the archive's central directory.
+ */
+export function listZipEntries(bytes: Uint8Array): ZipEntry[] {
+  if (bytes.length < END_OF_CENTRAL_DIRECTORY_MIN_SIZE) {
+    throw new Error("Invalid ZIP file: the file is too small.");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  const eocdOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Invalid ZIP file: corrupt central directory.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameStart = offset + CENTRAL_DIRECTORY_HEADER_SIZE;
+
+    entries.push({
+      flags: view.getUint16(offset + 8, true),
+      compressionMethod: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(bytes.subarray(nameStart, nameStart + nameLength)),
+    });
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Extracts and decompresses a single file from a ZIP archive.
+ * @param bytes The contents of the archive.
+ * @param entry The entry to extract, as returned by `listZipEntries`.
+ * @returns The uncompressed contents of the file.
+ */
+export function extractZipEntry(
+  bytes: Uint8Array,
+  entry: ZipEntry
+): Uint8Array {
+  if (entry.flags & FLAG_ENCRYPTED) {
+    throw new Error(`Encrypted ZIP entries are not supported: ${entry.name}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerOffset = entry.localHeaderOffset;
+  if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error(`Invalid ZIP file: corrupt entry ${entry.name}.`);
+  }
+  // The local header's name and extra field lengths may differ from those in
+  // the central directory, so they must be read from the local header.
+  const dataStart =
+    headerOffset +
+    LOCAL_FILE_HEADER_SIZE +
+    view.getUint16(headerOffset + 26, true) +
+    view.getUint16(headerOffset + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case COMPRESSION_STORED:
+      return data.slice();
+    case COMPRESSION_DEFLATE:
+      return pako.inflateRaw(data);
+    default:
+      throw new Error(
+        `Unsupported ZIP compression method ${entry.compressionMethod}: ${entry.name}`
+      );
+  }
+}
+
+/**
+ * Reads a single file from a ZIP archive by name.
+ * @param bytes The contents of the archive.
+ * @param name The path of the file within the archive.
+ * @returns The uncompressed contents of the file, or null if it is missing.
+ */
+export function readZipFile(
+  bytes: Uint8Array,
+  name: string
+): Uint8Array | null {
+  const entry = listZipEntries(bytes).find((e) => e.name === name);
+  return entry ? extractZipEntry(bytes, entry) : null;
+}
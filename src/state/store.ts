@@ -1,4 +1,4 @@
-import { MigrationOtpParameter } from "../types";
+import { BatchProgress, MigrationOtpParameter } from "../types";
 
 /**
  * Defines the shape of our application's state.
@@ -10,6 +10,7 @@ export interface AppState {
   selectedOtpKeys: Set<string>;
   theme: "light" | "dark" | "system";
   focusedOtpKey: string | null;
+  batches: Map<string, BatchProgress>; // Multi-QR exports, keyed by batch ID
 }
 
 const state: AppState = {
@@ -18,6 +19,7 @@ const state: AppState = {
   selectedOtpKeys: new Set(),
   theme: (localStorage.getItem("theme") as AppState["theme"]) || "system",
   focusedOtpKey: null,
+  batches: new Map(),
 };
 
 type Listener = (state: AppState) => void;
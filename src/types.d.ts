@@ -14,9 +14,52 @@ export interface MigrationOtpParameter {
   name: string;
   issuer: string;
   algorithm: number; // ALGORITHM_UNSPECIFIED (0), SHA1 (1)
-  digits: number; // DIGITS_UNSPECIFIED (0), SIX (1), EIGHT (2)
+  digits: number; // DIGITS_UNSPECIFIED (0), SIX (1), EIGHT (2), or UNSUPPORTED_DIGITS (-1)
   type: number; // TYPE_UNSPECIFIED (0), HOTP (1), TOTP (2)
   counter?: number;
+  period?: number; // TOTP time step in seconds. Not part of the Google protobuf; defaults to 30.
+  batch?: MigrationBatch; // Only set for accounts from exports split across several QR codes.
+  lastPass?: LastPassAccountMetadata; // Only set for accounts imported from LastPass Authenticator.
+}
+
+/**
+ * A folder of LastPass Authenticator accounts.
+ */
+export interface LastPassFolder {
+  id: number;
+  name: string;
+  isOpened: boolean;
+}
+
+/**
+ * The LastPass Authenticator details of an account that are not needed to
+ * generate codes, kept so that exports back to LastPass keep the user's
+ * organisation.
+ */
+export interface LastPassAccountMetadata {
+  accountId?: string;
+  createdAt?: number; // Milliseconds since the epoch
+  isFavorite?: boolean;
+  folder?: LastPassFolder;
+  position?: number; // Position of the account within its folder
+}
+
+/**
+ * Identifies the QR code an account was scanned from, when an export is split
+ * across several QR codes.
+ */
+export interface MigrationBatch {
+  id: string; // Shared by all QR codes of the same export
+  index: number; // Zero-based position of the QR code within the export
+  size: number; // The number of QR codes in the export
+}
+
+/**
+ * The QR codes of a multi-QR export that have been scanned so far.
+ */
+export interface BatchProgress {
+  size: number;
+  scannedIndices: Set<number>;
 }
 
 /**
@@ -78,7 +121,437 @@ export interface LastPassQrPayload {
 export interface LastPassFilePayload {
   version: number;
   deviceName: string;
-  folders: { id: number; isOpened: boolean; name: string }[];
+  folders: LastPassFolder[];
   accounts: LastPassFileAccount[];
   localDeviceId: string | null;
 }
+
+/**
+ * Represents the OTP details of a single entry in an Aegis Authenticator vault.
+ */
+export interface AegisEntryInfo {
+  secret: string; // Base32 encoded secret
+  algo: string; // e.g. "SHA1"
+  digits: number;
+  period?: number; // TOTP only
+  counter?: number; // HOTP only
+}
+
+/**
+ * Represents a single entry in an Aegis Authenticator vault.
+ */
+export interface AegisEntry {
+  type: string; // "totp", "hotp", "steam", "motp" or "yandex"
+  uuid: string;
+  name: string;
+  issuer: string;
+  note?: string;
+  favorite?: boolean;
+  icon?: string | null;
+  info: AegisEntryInfo;
+  groups?: string[];
+}
+
+/**
+ * Represents the (decrypted) database of an Aegis Authenticator vault.
+ */
+export interface AegisDatabase {
+  version: number;
+  entries: AegisEntry[];
+  groups?: { uuid: string; name: string }[];
+}
+
+/**
+ * The AES-GCM nonce and tag (both hex encoded) used by Aegis encryption.
+ */
+export interface AegisKeyParams {
+  nonce: string;
+  tag: string;
+}
+
+/**
+ * Represents a key slot in an encrypted Aegis vault. Each slot holds a copy of
+ * the vault's master key, encrypted with a key derived from one credential.
+ */
+export interface AegisSlot {
+  type: number; // RAW (0), PASSWORD (1), BIOMETRIC (2)
+  uuid: string;
+  key: string; // Hex encoded, encrypted master key
+  key_params: AegisKeyParams;
+  // --- Password slots only (scrypt parameters) ---
+  n?: number;
+  r?: number;
+  p?: number;
+  salt?: string; // Hex encoded
+  repaired?: boolean;
+  is_backup?: boolean;
+}
+
+/**
+ * Represents the overall JSON structure of an Aegis Authenticator vault export.
+ * For plaintext exports, `db` is the database object and the header's `slots`
+ * and `params` are null. For encrypted exports, `db` is a Base64 encoded
+ * AES-GCM ciphertext.
+ */
+export interface AegisVault {
+  version: number;
+  header: {
+    slots: AegisSlot[] | null;
+    params: AegisKeyParams | null;
+  };
+  db: AegisDatabase | string;
+}
+
+/**
+ * Represents a single account (a "service") in a 2FAS Authenticator backup.
+ */
+export interface TwoFasService {
+  name: string;
+  secret: string; // Base32 encoded secret
+  updatedAt?: number;
+  otp: {
+    label?: string;
+    account?: string;
+    issuer?: string;
+    digits?: number;
+    period?: number;
+    algorithm?: string; // e.g. "SHA1"
+    tokenType?: string; // "TOTP", "HOTP" or "STEAM"
+    counter?: number;
+    source?: string;
+  };
+  order?: { position: number };
+  icon?: unknown;
+  groupId?: string | null;
+}
+
+/**
+ * Represents the overall JSON structure of a 2FAS Authenticator `.2fas` backup.
+ * In encrypted backups `services` is empty, and `servicesEncrypted` holds the
+ * AES-GCM encrypted services array as "ciphertext:salt:iv" (all Base64).
+ */
+export interface TwoFasBackup {
+  services: TwoFasService[];
+  servicesEncrypted?: string;
+  reference?: string;
+  groups?: unknown[];
+  updatedAt?: number;
+  schemaVersion: number;
+  appVersionCode?: number;
+  appVersionName?: string;
+  appOrigin?: string;
+}
+
+/**
+ * Represents a single account in an andOTP backup (`otp_accounts.json`).
+ * The backup file itself is a plain array of these entries.
+ */
+export interface AndOtpEntry {
+  secret: string; // Base32 encoded secret
+  issuer?: string;
+  label: string;
+  digits: number;
+  type: string; // "TOTP", "HOTP" or "STEAM"
+  algorithm: string; // e.g. "SHA1"
+  period?: number; // TOTP and STEAM only
+  counter?: number; // HOTP only
+  thumbnail?: string;
+  last_used?: number;
+  used_frequency?: number;
+  tags?: string[];
+}
+
+/**
+ * Represents a single token as stored by FreeOTP and FreeOTP+. Secrets are
+ * stored as arrays of signed (Java) bytes. In FreeOTP 2.x backups the secret
+ * is omitted and stored separately as an encrypted key.
+ */
+export interface FreeOtpToken {
+  algo: string; // e.g. "SHA1"
+  digits: number;
+  type: string; // "TOTP" or "HOTP"
+  label: string;
+  issuerExt?: string;
+  issuerInt?: string;
+  period?: number;
+  counter?: number;
+  secret?: number[];
+  imageAlt?: string;
+}
+
+/**
+ * Represents the overall JSON structure of a FreeOTP+ export.
+ */
+export interface FreeOtpPlusBackup {
+  tokens: FreeOtpToken[];
+  tokenOrder?: string[];
+}
+
+/**
+ * Represents a key encrypted with AES-GCM in a FreeOTP 2.x backup. The
+ * `mParameters` field holds the DER encoded GCM parameters (i.e. the nonce).
+ */
+export interface FreeOtpEncryptedKey {
+  mCipher: string; // "AES/GCM/NoPadding"
+  mCipherText: number[];
+  mParameters: number[];
+  mToken: string; // The algorithm of the encrypted key, e.g. "AES" or "HmacSHA1"
+}
+
+/**
+ * Represents the password-protected master key of a FreeOTP 2.x backup.
+ */
+export interface FreeOtpMasterKey {
+  mAlgorithm: string; // e.g. "PBKDF2withHmacSHA512"
+  mEncryptedKey: FreeOtpEncryptedKey;
+  mIterations: number;
+  mSalt: number[];
+}
+
+/**
+ * Represents a URI attached to a Bitwarden login item.
+ */
+export interface BitwardenLoginUri {
+  match: number | null;
+  uri: string | null;
+}
+
+/**
+ * Represents a single item in a Bitwarden vault export. Only login items
+ * (type 1) can carry a TOTP secret.
+ */
+export interface BitwardenItem {
+  id?: string;
+  organizationId?: string | null;
+  folderId?: string | null;
+  type: number; // 1 = Login, 2 = Secure note, 3 = Card, 4 = Identity
+  name: string;
+  notes?: string | null;
+  favorite?: boolean;
+  reprompt?: number;
+  login?: {
+    uris?: BitwardenLoginUri[] | null;
+    username?: string | null;
+    password?: string | null;
+    totp?: string | null; // otpauth:// URI, steam:// secret or bare Base32 secret
+  } | null;
+  collectionIds?: string[] | null;
+}
+
+/**
+ * Represents a folder in a Bitwarden vault export.
+ */
+export interface BitwardenFolder {
+  id: string;
+  name: string;
+}
+
+/**
+ * Represents the overall JSON structure of an unencrypted Bitwarden export.
+ */
+export interface BitwardenExport {
+  encrypted: boolean;
+  folders?: BitwardenFolder[];
+  items: BitwardenItem[];
+}
+
+/**
+ * Represents the envelope of a password-protected Bitwarden export. The
+ * `data` field holds the encrypted JSON of an unencrypted export, as a
+ * Bitwarden cipher string ("2.iv|ciphertext|mac").
+ */
+export interface BitwardenEncryptedExport {
+  encrypted: true;
+  passwordProtected?: boolean;
+  salt: string;
+  kdfType: number; // 0 = PBKDF2-SHA256, 1 = Argon2id
+  kdfIterations: number;
+  kdfMemory?: number; // Argon2id memory in MiB
+  kdfParallelism?: number;
+  encKeyValidation_DO_NOT_EDIT: string;
+  data: string;
+}
+
+/**
+ * Represents a field in a section of a 1Password item. One-time passwords are
+ * stored in fields whose value has a `totp` key, holding an otpauth URI or a
+ * bare Base32 secret.
+ */
+export interface OnePuxField {
+  title?: string;
+  id?: string;
+  value: {
+    totp?: string;
+    otp?: string;
+    [valueType: string]: unknown;
+  };
+}
+
+/**
+ * Represents a single item in a 1Password `.1pux` export.
+ */
+export interface OnePuxItem {
+  uuid?: string;
+  state?: string; // "active" or "archived"
+  overview: {
+    title?: string;
+    subtitle?: string;
+    url?: string;
+  };
+  details: {
+    loginFields?: {
+      value?: string;
+      designation?: string; // "username" or "password"
+    }[];
+    sections?: {
+      title?: string;
+      fields?: OnePuxField[];
+    }[];
+  };
+}
+
+/**
+ * Represents the `export.data` JSON file inside a 1Password `.1pux` archive.
+ */
+export interface OnePuxExportData {
+  accounts: {
+    attrs?: { accountName?: string };
+    vaults: {
+      attrs?: { name?: string };
+      items: OnePuxItem[];
+    }[];
+  }[];
+}
+
+/**
+ * Represents an encrypted Ente Auth export. `encryptedData` holds the list of
+ * otpauth URIs, encrypted with libsodium's XChaCha20-Poly1305 secretstream;
+ * `encryptionNonce` is the stream header. All binary values are Base64.
+ */
+export interface EnteEncryptedExport {
+  version: number;
+  kdfParams: {
+    memLimit: number; // Argon2id memory in bytes
+    opsLimit: number; // Argon2id iterations
+    salt: string;
+  };
+  encryptedData: string;
+  encryptionNonce: string;
+}
+
+/**
+ * The display settings Ente Auth stores in the `codeDisplay` parameter of
+ * each otpauth URI.
+ */
+export interface EnteCodeDisplay {
+  pinned?: boolean;
+  trashed?: boolean;
+  note?: string;
+  tags?: string[];
+}
+
+/**
+ * Represents a single account in an Authenticator Pro (Stratum) backup.
+ */
+export interface AuthenticatorProAuthenticator {
+  Type: number; // 1 = HOTP, 2 = TOTP, 3 = mOTP, 4 = Steam, 5 = Yandex
+  Issuer: string;
+  Username?: string | null;
+  Secret: string; // Base32 for TOTP and HOTP
+  Pin?: string | null; // mOTP and Yandex only
+  Algorithm: number; // 0 = SHA1, 1 = SHA256, 2 = SHA512
+  Digits: number;
+  Period: number;
+  Counter: number;
+  Icon?: string | null;
+  Ranking?: number;
+  CopyCount?: number;
+}
+
+/**
+ * Represents the JSON structure of an Authenticator Pro backup (`.authpro`).
+ */
+export interface AuthenticatorProBackup {
+  Authenticators: AuthenticatorProAuthenticator[];
+  Categories?: { Id: string; Name: string; Ranking?: number }[];
+  AuthenticatorCategories?: {
+    CategoryId: string;
+    AuthenticatorSecret: string;
+    Ranking?: number;
+  }[];
+  CustomIcons?: unknown[];
+}
+
+/**
+ * Represents a single item in a Proton Pass export. Login items keep their
+ * TOTP (an otpauth URI or a bare Base32 secret) in `content.totpUri`; any
+ * item may hold more in extra fields of type "totp".
+ */
+export interface ProtonPassItem {
+  itemId?: string;
+  state?: number; // 1 = active, 2 = trashed
+  data: {
+    type: string; // "login", "note", "alias", ...
+    metadata: { name: string; note?: string };
+    content?: {
+      itemEmail?: string;
+      itemUsername?: string;
+      username?: string; // Exports before itemEmail/itemUsername were added
+      urls?: string[];
+      totpUri?: string;
+    };
+    extraFields?: {
+      fieldName: string;
+      type: string;
+      data: { totpUri?: string; content?: string };
+    }[];
+  };
+}
+
+/**
+ * Represents the JSON structure of an unencrypted Proton Pass export. Vaults
+ * are keyed by their share ID.
+ */
+export interface ProtonPassExport {
+  version?: string;
+  encrypted: boolean;
+  vaults: {
+    [shareId: string]: { name: string; items: ProtonPassItem[] };
+  };
+}
+
+/**
+ * Represents the JSON structure of a SteamDesktopAuthenticator `.maFile`.
+ * Only the fields needed to generate Steam Guard codes are listed.
+ */
+export interface SteamMaFile {
+  shared_secret: string; // Base64
+  account_name: string;
+  serial_number?: string;
+  revocation_code?: string;
+  identity_secret?: string;
+  uri?: string;
+}
+
+/**
+ * A callback used by importers to ask the user for the password protecting an
+ * encrypted backup. It resolves with null if the user cancels.
+ */
+export type PasswordProvider = (prompt: string) => Promise<string | null>;
+
+/**
+ * The credentials used to unlock a database that may be protected by a key
+ * file in addition to (or instead of) a password, such as a KeePass database.
+ */
+export interface UnlockCredentials {
+  password: string;
+  keyFile: Uint8Array | null;
+}
+
+/**
+ * A callback used by importers to ask the user for a password and an optional
+ * key file. It resolves with null if the user cancels.
+ */
+export type CredentialsProvider = (
+  prompt: string
+) => Promise<UnlockCredentials | null>;
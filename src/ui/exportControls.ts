@@ -1,6 +1,16 @@
 import { $ } from "./dom";
 import { downloadAsCsv } from "../services/csvExporter";
 import { downloadAsJson } from "../services/jsonExporter";
+import { downloadAsText } from "../services/textExporter";
+import { downloadAsAegis } from "../services/aegisExporter";
+import { downloadAsTwoFas } from "../services/twoFasExporter";
+import { downloadAsLastPassFile } from "../services/lastPassFileExporter";
+import { downloadAsBitwarden } from "../services/bitwardenExporter";
+import { downloadAsOnePasswordCsv } from "../services/onePasswordExporter";
+import { downloadAsProtonPassCsv } from "../services/protonPassExporter";
+import { downloadAsApplePasswordsCsv } from "../services/applePasswordsExporter";
+import { downloadAsKeePass } from "../services/keePassExporter";
+import { downloadAsKdbx } from "../services/kdbxExporter";
 import {
   exportToGoogleAuthenticator,
   exportToLastPass,
@@ -17,6 +27,7 @@ import { setState, getState } from "../state/store";
 import { getOtpUniqueKey } from "../services/dataHandler";
 import { MigrationOtpParameter } from "../types";
 import { showQrModal } from "./qrModal";
+import { promptForKdbxPassword, promptForPassword } from "./passwordPrompt";
 import { logger } from "../services/logger";
 
 /**
@@ -25,7 +36,12 @@ import { logger } from "../services/logger";
 function handleClearAll(): void {
   clearAlerts();
   clearLogs();
-  setState(() => ({ otps: [], logCount: 0, selectedOtpKeys: new Set() }));
+  setState(() => ({
+    otps: [],
+    logCount: 0,
+    selectedOtpKeys: new Set(),
+    batches: new Map(),
+  }));
   resetFileInput();
 }
 
@@ -55,14 +71,16 @@ async function handleExport(
   }
   try {
     const result = await exportFn(selectedOtps);
-    if (isQrExport && typeof result === "string") {
-      const title = result.startsWith("lpaauth")
+    // QR exports produce one URL, or one URL per QR code of a batch.
+    const urls: unknown[] = Array.isArray(result) ? result : [result];
+    if (isQrExport && urls.every((url) => typeof url === "string")) {
+      const title = (urls[0] as string).startsWith("lpaauth")
         ? "Scan with LastPass Authenticator"
         : "Scan with Google Authenticator";
       // Show the QR modal. The `true` argument indicates that the modal was
       // opened by a user action (potentially keyboard), so focus should be
       // restored to the trigger button when the modal is closed.
-      showQrModal(result, title, true /* fromKeyboard */);
+      showQrModal(urls as string[], title, true /* fromKeyboard */);
     }
   } catch (error: any) {
     const message = error.message || "An unknown error occurred during export.";
@@ -78,6 +96,34 @@ async function handleExport(
 export function initExportControls(): void {
   const downloadCsvButton = $<HTMLButtonElement>("#download-csv-button")!;
   const downloadJsonButton = $<HTMLButtonElement>("#download-json-button")!;
+  const downloadTextButton = $<HTMLButtonElement>("#download-text-button")!;
+  const downloadAegisButton = $<HTMLButtonElement>("#download-aegis-button")!;
+  const downloadTwoFasButton = $<HTMLButtonElement>("#download-2fas-button")!;
+  const downloadLastPassFileButton = $<HTMLButtonElement>(
+    "#download-lastpass-file-button"
+  )!;
+  const downloadBitwardenJsonButton = $<HTMLButtonElement>(
+    "#download-bitwarden-json-button"
+  )!;
+  const downloadBitwardenCsvButton = $<HTMLButtonElement>(
+    "#download-bitwarden-csv-button"
+  )!;
+  const downloadOnePasswordButton = $<HTMLButtonElement>(
+    "#download-1password-button"
+  )!;
+  const downloadProtonPassButton = $<HTMLButtonElement>(
+    "#download-protonpass-button"
+  )!;
+  const downloadApplePasswordsButton = $<HTMLButtonElement>(
+    "#download-apple-passwords-button"
+  )!;
+  const downloadKeePassXmlButton = $<HTMLButtonElement>(
+    "#download-keepass-xml-button"
+  )!;
+  const downloadKeePassXcCsvButton = $<HTMLButtonElement>(
+    "#download-keepassxc-csv-button"
+  )!;
+  const downloadKdbxButton = $<HTMLButtonElement>("#download-kdbx-button")!;
   const exportGoogleButton = $<HTMLButtonElement>("#export-google-button")!;
   const exportLastPassButton = $<HTMLButtonElement>("#export-lastpass-button")!;
   const clearAllButton = $<HTMLButtonElement>("#clear-all-button")!;
@@ -92,6 +138,63 @@ export function initExportControls(): void {
   downloadJsonButton.addEventListener("click", () => {
     handleExport(async (otps) => downloadAsJson(otps));
   });
+  downloadTextButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsText(otps));
+  });
+  downloadAegisButton.addEventListener("click", () => {
+    handleExport(async (otps) => {
+      const password = await promptForPassword({
+        title: "Save as Aegis vault",
+        message:
+          "Enter a password to encrypt the vault, or leave it blank to save it unencrypted.",
+        submitLabel: "Save",
+        confirm: true,
+        allowEmpty: true,
+      });
+      if (password === null) return; // The user cancelled.
+      await downloadAsAegis(otps, password);
+    });
+  });
+  downloadTwoFasButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsTwoFas(otps));
+  });
+  downloadLastPassFileButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsLastPassFile(otps));
+  });
+  downloadBitwardenJsonButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsBitwarden(otps, "json"));
+  });
+  downloadBitwardenCsvButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsBitwarden(otps, "csv"));
+  });
+  downloadOnePasswordButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsOnePasswordCsv(otps));
+  });
+  downloadProtonPassButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsProtonPassCsv(otps));
+  });
+  downloadApplePasswordsButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsApplePasswordsCsv(otps));
+  });
+  downloadKeePassXmlButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsKeePass(otps, "xml"));
+  });
+  downloadKeePassXcCsvButton.addEventListener("click", () => {
+    handleExport(async (otps) => downloadAsKeePass(otps, "csv"));
+  });
+  downloadKdbxButton.addEventListener("click", () => {
+    handleExport(async (otps) => {
+      const result = await promptForKdbxPassword({
+        title: "Save as KeePass database",
+        message:
+          "Enter a master password and choose the cipher to encrypt the database.",
+        submitLabel: "Save",
+        confirm: true,
+      });
+      if (result === null) return; // The user cancelled.
+      await downloadAsKdbx(otps, result.password, result.cipher);
+    });
+  });
   exportGoogleButton.addEventListener("click", () =>
     handleExport(exportToGoogleAuthenticator, true)
   );
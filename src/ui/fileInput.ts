@@ -1,10 +1,23 @@
-import { MigrationOtpParameter } from "../types";
+import {
+  CredentialsProvider,
+  MigrationOtpParameter,
+  PasswordProvider,
+} from "../types";
 import { processImage } from "../services/qrProcessor";
 import { processJson } from "../services/jsonProcessor";
 import { processCsv } from "../services/csvProcessor";
+import { processTextUriList } from "../services/textProcessor";
+import { processAndOtpEncryptedBackup } from "../services/andOtpProcessor";
+import { processFreeOtpBackup } from "../services/freeOtpProcessor";
+import { processOnePuxExport } from "../services/onePasswordProcessor";
+import { processKdbx } from "../services/kdbxProcessor";
+import { processAuthenticatorProFile } from "../services/authenticatorProProcessor";
+import { processProtonPassZip } from "../services/protonPassProcessor";
 import { getOtpUniqueKey, filterAndLogOtps } from "../services/dataHandler";
+import { recordBatchProgress } from "../services/batchProgress";
 import { setState, getState } from "../state/store";
 import { addUploadLog, displayError } from "./notifications";
+import { promptForCredentials, promptForPassword } from "./passwordPrompt";
 import { $ } from "./dom";
 
 /**
@@ -36,6 +49,19 @@ async function processSingleFile(
   newOtps: MigrationOtpParameter[];
   hasDuplicatesOrErrors: boolean;
 }> {
+  // Encrypted backups ask for their password through a modal prompt.
+  const requestPassword: PasswordProvider = (message) =>
+    promptForPassword({ title: `Unlock ${file.name}`, message });
+  const requestCredentials: CredentialsProvider = (message) =>
+    promptForCredentials({ title: `Unlock ${file.name}`, message });
+
+  // Lines that could not be read from a text file are reported individually.
+  let invalidLineCount = 0;
+  const reportInvalidLine = (lineNumber: number, message: string) => {
+    invalidLineCount++;
+    addUploadLog(file.name, "warning", `Line ${lineNumber}: ${message}`);
+  };
+
   try {
     let otpParameters: MigrationOtpParameter[] | null = null;
 
@@ -43,13 +69,53 @@ async function processSingleFile(
       otpParameters = await processImage(file);
     } else if (
       file.type === "application/json" ||
-      file.name.endsWith(".json")
+      file.name.endsWith(".json") ||
+      file.name.endsWith(".2fas") ||
+      file.name.toLowerCase().endsWith(".mafile")
     ) {
+      // 2FAS backups and SteamDesktopAuthenticator `.maFile` files are JSON
+      // files with their own extension.
       const fileContent = await file.text();
-      otpParameters = await processJson(fileContent);
+      otpParameters = await processJson(fileContent, requestPassword);
+    } else if (file.name.endsWith(".aes")) {
+      // Encrypted andOTP backups (`otp_accounts.json.aes`) are binary files.
+      const fileBytes = new Uint8Array(await file.arrayBuffer());
+      otpParameters = await processAndOtpEncryptedBackup(
+        fileBytes,
+        requestPassword
+      );
+    } else if (file.name.endsWith(".xml")) {
+      // FreeOTP backups (`tokens.xml`, `externalBackup.xml`) may be binary.
+      const fileBytes = new Uint8Array(await file.arrayBuffer());
+      otpParameters = await processFreeOtpBackup(fileBytes, requestPassword);
+    } else if (file.name.endsWith(".1pux")) {
+      // 1Password exports are ZIP archives.
+      const fileBytes = new Uint8Array(await file.arrayBuffer());
+      otpParameters = await processOnePuxExport(fileBytes);
+    } else if (file.name.endsWith(".zip")) {
+      // Proton Pass exports are zipped when they include attached files.
+      const fileBytes = new Uint8Array(await file.arrayBuffer());
+      otpParameters = await processProtonPassZip(fileBytes);
+    } else if (file.name.endsWith(".kdbx")) {
+      // KeePass databases may also be protected by a key file.
+      const fileBytes = new Uint8Array(await file.arrayBuffer());
+      otpParameters = await processKdbx(fileBytes, requestCredentials);
+    } else if (file.name.endsWith(".authpro")) {
+      // Authenticator Pro backups are JSON, or binary when encrypted.
+      const fileBytes = new Uint8Array(await file.arrayBuffer());
+      otpParameters = await processAuthenticatorProFile(
+        fileBytes,
+        requestPassword
+      );
     } else if (file.type === "text/csv" || file.name.endsWith(".csv")) {
       const fileContent = await file.text();
       otpParameters = await processCsv(fileContent);
+    } else if (file.name.endsWith(".txt")) {
+      const fileContent = await file.text();
+      // Ente Auth saves its encrypted exports as JSON in a `.txt` file.
+      otpParameters = fileContent.trimStart().startsWith("{")
+        ? await processJson(fileContent, requestPassword)
+        : await processTextUriList(fileContent, reportInvalidLine);
     } else {
       throw new Error("Unsupported file type.");
     }
@@ -60,7 +126,11 @@ async function processSingleFile(
         existingAndBatchKeys,
         file.name
       );
-      return { newOtps, hasDuplicatesOrErrors: duplicatesFound > 0 };
+      recordBatchProgress(otpParameters, file.name);
+      return {
+        newOtps,
+        hasDuplicatesOrErrors: duplicatesFound > 0 || invalidLineCount > 0,
+      };
     } else if (otpParameters === null) {
       // This case is specific to image processing where no QR code is found.
       addUploadLog(file.name, "warning", "No QR code found.");
@@ -68,7 +138,7 @@ async function processSingleFile(
     } else {
       // This case handles empty but valid files (e.g., empty JSON array).
       addUploadLog(file.name, "info", "No OTP secrets found.");
-      return { newOtps: [], hasDuplicatesOrErrors: false };
+      return { newOtps: [], hasDuplicatesOrErrors: invalidLineCount > 0 };
     }
   } catch (error: any) {
     const message =
@@ -1,6 +1,7 @@
 export enum OtpType {
   HOTP = 1,
   TOTP = 2,
+  STEAM = 3,
 }
 
 export interface OtpTypeInfo {
@@ -21,6 +22,12 @@ export function getOtpTypeInfo(type: number): OtpTypeInfo {
       description: "Time-based (TOTP)",
     };
   }
+  if (type === OtpType.STEAM) {
+    return {
+      key: "steam",
+      description: "Steam Guard",
+    };
+  }
   return {
     key: "hotp",
     description: "Counter-based (HOTP)",
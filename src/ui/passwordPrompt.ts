@@ -0,0 +1,227 @@
+import { UnlockCredentials } from "../types";
+import { KdbxExportCipher } from "../services/kdbxExporter";
+import { $ } from "./dom";
+
+export interface PasswordPromptOptions {
+  /** The heading shown at the top of the dialog. */
+  title: string;
+  /** An explanation of what the password is for. */
+  message: string;
+  /** The label of the submit button. Defaults to "Unlock". */
+  submitLabel?: string;
+  /** If true, the password must be typed twice (e.g. when encrypting). */
+  confirm?: boolean;
+  /** If true, an empty password may be submitted. */
+  allowEmpty?: boolean;
+  /**
+   * If true, the user may also choose a key file. An empty password is then
+   * accepted as long as a key file is chosen.
+   */
+  keyFile?: boolean;
+  /** If true, the user may also choose the cipher of a KeePass database. */
+  cipher?: boolean;
+}
+
+/** The credentials entered in the prompt, and the chosen cipher. */
+interface PasswordPromptResult extends UnlockCredentials {
+  cipher: KdbxExportCipher;
+}
+
+/** Resolves the currently open prompt. Null when no prompt is open. */
+let resolvePrompt: ((result: PasswordPromptResult | null) => void) | null =
+  null;
+let elementThatOpenedModal: HTMLElement | null = null;
+
+/**
+ * Handles keydown events within the password modal.
+ * Key presses are kept away from the global navigation handler, which would
+ * otherwise intercept arrow keys, Enter and Space while the user is typing.
+ * @param event The keyboard event.
+ */
+function handlePasswordModalKeydown(event: KeyboardEvent): void {
+  event.stopPropagation();
+
+  if (event.key === "Escape") {
+    closePasswordPrompt(null);
+    return;
+  }
+
+  // Trap focus within the modal
+  if (event.key === "Tab") {
+    const modal = $<HTMLDivElement>("#password-modal");
+    const focusableElements = Array.from(
+      modal.querySelectorAll<HTMLElement>("input, select, button")
+    ).filter((el) => el.offsetParent !== null && !el.hasAttribute("disabled"));
+
+    if (focusableElements.length === 0) return;
+
+    const firstElement = focusableElements[0];
+    const lastElement = focusableElements[focusableElements.length - 1];
+
+    if (event.shiftKey && document.activeElement === firstElement) {
+      lastElement.focus();
+      event.preventDefault();
+    } else if (!event.shiftKey && document.activeElement === lastElement) {
+      firstElement.focus();
+      event.preventDefault();
+    }
+  }
+}
+
+/**
+ * Hides the password modal, clears its inputs and settles the open prompt.
+ * @param result The entered credentials, or null if the prompt was
+ * cancelled.
+ */
+function closePasswordPrompt(result: PasswordPromptResult | null): void {
+  const modal = $<HTMLDivElement>("#password-modal");
+  modal.style.display = "none";
+  $<HTMLInputElement>("#password-input").value = "";
+  $<HTMLInputElement>("#password-confirm-input").value = "";
+  $<HTMLInputElement>("#password-keyfile-input").value = "";
+  $<HTMLSelectElement>("#password-cipher-select").value = "aes";
+  $<HTMLParagraphElement>("#password-modal-error").textContent = "";
+  document.body.classList.remove("modal-open");
+
+  elementThatOpenedModal?.focus();
+  elementThatOpenedModal = null;
+
+  const resolve = resolvePrompt;
+  resolvePrompt = null;
+  resolve?.(result);
+}
+
+/**
+ * Validates and submits the password form.
+ * @param options The options of the currently open prompt.
+ */
+async function submitPasswordPrompt(
+  options: PasswordPromptOptions
+): Promise<void> {
+  const passwordInput = $<HTMLInputElement>("#password-input");
+  const confirmInput = $<HTMLInputElement>("#password-confirm-input");
+  const keyFileInput = $<HTMLInputElement>("#password-keyfile-input");
+  const errorElement = $<HTMLParagraphElement>("#password-modal-error");
+  const password = passwordInput.value;
+  const keyFile = options.keyFile ? keyFileInput.files?.[0] : undefined;
+
+  if (!password && !keyFile && !options.allowEmpty) {
+    errorElement.textContent = options.keyFile
+      ? "Please enter a password or choose a key file."
+      : "Please enter a password.";
+    passwordInput.focus();
+    return;
+  }
+  if (options.confirm && password !== confirmInput.value) {
+    errorElement.textContent = "The passwords do not match.";
+    confirmInput.focus();
+    return;
+  }
+  closePasswordPrompt({
+    password,
+    keyFile: keyFile ? new Uint8Array(await keyFile.arrayBuffer()) : null,
+    cipher: $<HTMLSelectElement>("#password-cipher-select")
+      .value as KdbxExportCipher,
+  });
+}
+
+/**
+ * Shows the password modal and waits for it to be submitted or cancelled.
+ * @param options The text and behaviour of the prompt.
+ * @returns A promise that resolves with the entered credentials and cipher,
+ * or null if the user cancelled.
+ */
+function openPasswordPrompt(
+  options: PasswordPromptOptions
+): Promise<PasswordPromptResult | null> {
+  // Only one prompt can be open at a time; cancel any previous one.
+  if (resolvePrompt) closePasswordPrompt(null);
+
+  elementThatOpenedModal = document.activeElement as HTMLElement;
+
+  const modal = $<HTMLDivElement>("#password-modal");
+  const form = $<HTMLFormElement>("#password-form");
+  $<HTMLHeadingElement>("#password-modal-title").textContent = options.title;
+  $<HTMLParagraphElement>("#password-modal-message").textContent =
+    options.message;
+  $<HTMLButtonElement>("#password-submit-button").textContent =
+    options.submitLabel || "Unlock";
+  $<HTMLDivElement>("#password-confirm-row").style.display = options.confirm
+    ? "flex"
+    : "none";
+  $<HTMLDivElement>("#password-keyfile-row").style.display = options.keyFile
+    ? "flex"
+    : "none";
+  $<HTMLDivElement>("#password-cipher-row").style.display = options.cipher
+    ? "flex"
+    : "none";
+
+  form.onsubmit = (event) => {
+    event.preventDefault();
+    submitPasswordPrompt(options);
+  };
+
+  modal.style.display = "flex";
+  document.body.classList.add("modal-open");
+  $<HTMLInputElement>("#password-input").focus();
+
+  return new Promise((resolve) => {
+    resolvePrompt = resolve;
+  });
+}
+
+/**
+ * Shows a modal dialog asking the user for a password. The password never
+ * leaves the browser; it is only handed back to the caller.
+ * @param options The text and behaviour of the prompt.
+ * @returns A promise that resolves with the entered password, or null if the
+ * user cancelled.
+ */
+export async function promptForPassword(
+  options: PasswordPromptOptions
+): Promise<string | null> {
+  const credentials = await openPasswordPrompt(options);
+  return credentials ? credentials.password : null;
+}
+
+/**
+ * Shows a modal dialog asking the user for a password and an optional key
+ * file, as used by KeePass databases.
+ * @param options The text and behaviour of the prompt.
+ * @returns A promise that resolves with the entered credentials, or null if
+ * the user cancelled.
+ */
+export async function promptForCredentials(
+  options: PasswordPromptOptions
+): Promise<UnlockCredentials | null> {
+  const result = await openPasswordPrompt({ ...options, keyFile: true });
+  return result ? { password: result.password, keyFile: result.keyFile } : null;
+}
+
+/**
+ * Shows a modal dialog asking the user for the master password and cipher of
+ * a new KeePass database.
+ * @param options The text and behaviour of the prompt.
+ * @returns A promise that resolves with the entered password and chosen
+ * cipher, or null if the user cancelled.
+ */
+export async function promptForKdbxPassword(
+  options: PasswordPromptOptions
+): Promise<{ password: string; cipher: KdbxExportCipher } | null> {
+  const result = await openPasswordPrompt({ ...options, cipher: true });
+  return result ? { password: result.password, cipher: result.cipher } : null;
+}
+
+/**
+ * Initializes the password modal's static event listeners.
+ */
+export function initPasswordPrompt(): void {
+  const modal = $<HTMLDivElement>("#password-modal");
+  const cancelButton = $<HTMLButtonElement>("#password-cancel-button");
+
+  modal.addEventListener("keydown", handlePasswordModalKeydown);
+  modal.addEventListener("click", (event) => {
+    if (event.target === modal) closePasswordPrompt(null);
+  });
+  cancelButton.addEventListener("click", () => closePasswordPrompt(null));
+}
@@ -11,6 +11,10 @@ let elementThatOpenedModal: HTMLElement | null = null;
  */
 let openedByKeyboard = false;
 
+/** The URLs shown by the modal, one per QR code, and the one on display. */
+let qrPages: string[] = [];
+let currentQrPage = 0;
+
 function handleModalKeydown(event: KeyboardEvent): void {
   if (event.key === "Escape") {
     event.stopPropagation(); // Prevent the global handler from also firing
@@ -55,6 +59,7 @@ function hideQrModal(): void {
   const modal = $<HTMLDivElement>("#qr-modal");
   modal.style.display = "none";
   $<HTMLDivElement>("#modal-content").innerHTML = "";
+  qrPages = [];
   document.removeEventListener("keydown", handleModalKeydown);
 
   // --- Accessibility Enhancement: Restore focus to the element that opened the modal ---
@@ -69,25 +74,16 @@ function hideQrModal(): void {
   document.body.classList.remove("modal-open");
 }
 
-export function showQrModal(
-  otpAuthUrl: string,
-  title: string,
-  fromKeyboard = false
-): void {
-  // --- Accessibility Enhancement: Store the element that had focus ---
-  elementThatOpenedModal = document.activeElement as HTMLElement;
-  openedByKeyboard = fromKeyboard;
-
-  const modal = $<HTMLDivElement>("#qr-modal");
-  const modalContent = $<HTMLDivElement>("#modal-content");
-  const modalCloseButton = $<HTMLButtonElement>(".modal-close");
-  const modalTitleId = "qr-modal-title";
-
-  modalContent.innerHTML = "";
-
-  const modalCanvas = document.createElement("canvas");
+/**
+ * Draws one of the modal's QR codes and updates the page indicator and the
+ * previous/next buttons to match.
+ * @param page The zero-based index of the QR code to show.
+ */
+function showQrPage(page: number): void {
+  currentQrPage = Math.max(0, Math.min(page, qrPages.length - 1));
+  const modalCanvas = $<HTMLCanvasElement>("#modal-content canvas");
 
-  QRCode.toCanvas(modalCanvas, otpAuthUrl, {
+  QRCode.toCanvas(modalCanvas, qrPages[currentQrPage], {
     // The `width` option sets the canvas's drawing buffer size (its intrinsic
     // resolution). We render it at a reasonably high resolution (e.g., 512px)
     // to ensure it looks sharp even when CSS scales it up to fill the modal.
@@ -104,7 +100,91 @@ export function showQrModal(
   modalCanvas.style.width = "100%";
   modalCanvas.style.height = "auto";
 
-  modalContent.appendChild(modalCanvas);
+  if (qrPages.length > 1) {
+    const previousButton = $<HTMLButtonElement>(".modal-pager-previous");
+    const nextButton = $<HTMLButtonElement>(".modal-pager-next");
+    $<HTMLSpanElement>(".modal-pager-status").textContent = `${
+      currentQrPage + 1
+    } of ${qrPages.length}`;
+    previousButton.disabled = currentQrPage === 0;
+    nextButton.disabled = currentQrPage === qrPages.length - 1;
+
+    // Keep focus in the pager when the focused button has just been disabled.
+    if (previousButton.disabled && document.activeElement === previousButton) {
+      nextButton.focus();
+    } else if (nextButton.disabled && document.activeElement === nextButton) {
+      previousButton.focus();
+    }
+  }
+}
+
+/**
+ * Creates the previous/next controls used to step through the QR codes of a
+ * multi-QR export.
+ * @returns The pager element.
+ */
+function createQrPager(): HTMLDivElement {
+  const pager = document.createElement("div");
+  pager.className = "modal-pager";
+
+  const createButton = (className: string, icon: string, label: string) => {
+    const button = document.createElement("button");
+    button.className = `btn btn-secondary navigable ${className}`;
+    button.setAttribute("aria-label", label);
+    button.innerHTML = `<i class="fa ${icon}" aria-hidden="true"></i>`;
+    return button;
+  };
+  const previousButton = createButton(
+    "modal-pager-previous",
+    "fa-chevron-left",
+    "Previous QR code"
+  );
+  const nextButton = createButton(
+    "modal-pager-next",
+    "fa-chevron-right",
+    "Next QR code"
+  );
+  previousButton.addEventListener("click", () => showQrPage(currentQrPage - 1));
+  nextButton.addEventListener("click", () => showQrPage(currentQrPage + 1));
+
+  const status = document.createElement("span");
+  status.className = "modal-pager-status";
+  status.setAttribute("aria-live", "polite");
+
+  pager.append(previousButton, status, nextButton);
+  return pager;
+}
+
+/**
+ * Shows one or more QR codes in the modal. Several QR codes, such as the
+ * batches of a large export, are shown one at a time with controls to step
+ * through them.
+ * @param otpAuthUrls The URL to encode, or the URL of each QR code in order.
+ * @param title The text shown below the QR code.
+ * @param fromKeyboard Whether the modal was opened by a keyboard action.
+ */
+export function showQrModal(
+  otpAuthUrls: string | string[],
+  title: string,
+  fromKeyboard = false
+): void {
+  // --- Accessibility Enhancement: Store the element that had focus ---
+  elementThatOpenedModal = document.activeElement as HTMLElement;
+  openedByKeyboard = fromKeyboard;
+
+  const modal = $<HTMLDivElement>("#qr-modal");
+  const modalContent = $<HTMLDivElement>("#modal-content");
+  const modalCloseButton = $<HTMLButtonElement>(".modal-close");
+  const modalTitleId = "qr-modal-title";
+
+  modalContent.innerHTML = "";
+  qrPages = Array.isArray(otpAuthUrls) ? otpAuthUrls : [otpAuthUrls];
+
+  modalContent.appendChild(document.createElement("canvas"));
+  if (qrPages.length > 1) {
+    modalContent.appendChild(createQrPager());
+  }
+  showQrPage(0);
 
   const titleElement = document.createElement("p");
   titleElement.id = modalTitleId;
@@ -1,5 +1,5 @@
 import QRCode from "qrcode";
-import { MigrationOtpParameter, OtpData } from "../types";
+import { BatchProgress, MigrationOtpParameter, OtpData } from "../types";
 import { $ } from "./dom";
 import { handleCopyAction } from "./clipboard";
 import { Navigation } from "./navigation";
@@ -7,6 +7,10 @@ import { showQrModal } from "./qrModal";
 import { subscribe, getState, setState } from "../state/store";
 import { convertToOtpData } from "../services/otpFormatter";
 import { getOtpUniqueKey } from "../services/dataHandler";
+import {
+  describeBatchProgress,
+  getMissingBatchIndices,
+} from "../services/batchProgress";
 import { isNarrowViewport } from "./viewport";
 
 function getQrCodeColors() {
@@ -353,6 +357,31 @@ function render(
     .forEach(autoResizeTextarea);
 }
 
+/**
+ * Renders the progress of every multi-QR export scanned so far, so that users
+ * can see which QR codes they still have to scan.
+ * @param batches The progress of each batch, keyed by batch ID.
+ */
+function renderBatchProgress(batches: Map<string, BatchProgress>): void {
+  const container = $<HTMLDivElement>("#batch-progress-container");
+  const list = $<HTMLUListElement>("#batch-progress-list");
+
+  list.innerHTML = "";
+  container.style.display = batches.size > 0 ? "block" : "none";
+  batches.forEach((progress, batchId) => {
+    const isComplete = getMissingBatchIndices(progress).length === 0;
+    const item = document.createElement("li");
+    item.className = `batch-progress-item batch-progress-item--${
+      isComplete ? "complete" : "incomplete"
+    }`;
+    const icon = document.createElement("i");
+    icon.className = `fa ${isComplete ? "fa-check" : "fa-exclamation-triangle"}`;
+    icon.setAttribute("aria-hidden", "true");
+    item.append(icon, describeBatchProgress(batchId, progress));
+    list.appendChild(item);
+  });
+}
+
 export function initResults() {
   // Get initial state to determine the starting count.
   let previousOtpCount = getState().otps.length;
@@ -360,6 +389,7 @@ export function initResults() {
   // Re-render whenever the otps in the store change
   subscribe((state) => {
     render(state.otps, state.selectedOtpKeys);
+    renderBatchProgress(state.batches);
 
     const keyToFocus = state.focusedOtpKey;
     // After rendering, if a key was marked for focus (e.g., from a keyboard
@@ -386,6 +416,34 @@ export function initResults() {
     const selectionCountSpan = $<HTMLSpanElement>("#selection-count")!;
     const downloadCsvButton = $<HTMLButtonElement>("#download-csv-button");
     const downloadJsonButton = $<HTMLButtonElement>("#download-json-button");
+    const downloadTextButton = $<HTMLButtonElement>("#download-text-button");
+    const downloadAegisButton = $<HTMLButtonElement>("#download-aegis-button");
+    const downloadTwoFasButton = $<HTMLButtonElement>("#download-2fas-button");
+    const downloadLastPassFileButton = $<HTMLButtonElement>(
+      "#download-lastpass-file-button"
+    );
+    const downloadBitwardenJsonButton = $<HTMLButtonElement>(
+      "#download-bitwarden-json-button"
+    );
+    const downloadBitwardenCsvButton = $<HTMLButtonElement>(
+      "#download-bitwarden-csv-button"
+    );
+    const downloadOnePasswordButton = $<HTMLButtonElement>(
+      "#download-1password-button"
+    );
+    const downloadProtonPassButton = $<HTMLButtonElement>(
+      "#download-protonpass-button"
+    );
+    const downloadApplePasswordsButton = $<HTMLButtonElement>(
+      "#download-apple-passwords-button"
+    );
+    const downloadKeePassXmlButton = $<HTMLButtonElement>(
+      "#download-keepass-xml-button"
+    );
+    const downloadKeePassXcCsvButton = $<HTMLButtonElement>(
+      "#download-keepassxc-csv-button"
+    );
+    const downloadKdbxButton = $<HTMLButtonElement>("#download-kdbx-button");
     const exportGoogleButton = $<HTMLButtonElement>("#export-google-button");
     const exportLastPassButton = $<HTMLButtonElement>(
       "#export-lastpass-button"
@@ -418,9 +476,23 @@ export function initResults() {
 
       // 4. Enable/disable the main export buttons based on whether any items are selected.
       const hasSelection = count > 0;
-      setButtonNavigable(downloadCsvButton, hasSelection);
-      setButtonNavigable(downloadJsonButton, hasSelection);
-      setButtonNavigable(exportGoogleButton, hasSelection);
+      [
+        downloadCsvButton,
+        downloadJsonButton,
+        downloadTextButton,
+        downloadAegisButton,
+        downloadTwoFasButton,
+        downloadLastPassFileButton,
+        downloadBitwardenJsonButton,
+        downloadBitwardenCsvButton,
+        downloadOnePasswordButton,
+        downloadProtonPassButton,
+        downloadApplePasswordsButton,
+        downloadKeePassXmlButton,
+        downloadKeePassXcCsvButton,
+        downloadKdbxButton,
+        exportGoogleButton,
+      ].forEach((button) => setButtonNavigable(button, hasSelection));
 
       // 5. LastPass button has special logic: it's only enabled if the selection contains at least one TOTP account.
       if (hasSelection) {
@@ -0,0 +1,25 @@
+/**
+ * Helpers shared by the service tests for reading the files in `tests/data`.
+ */
+import fs from "fs";
+import path from "path";
+
+/**
+ * Reads a file from the test data directory.
+ * @param fileName The name of the file within `tests/data`.
+ * @returns The raw contents of the file.
+ */
+export function readTestData(fileName: string): Uint8Array {
+  return new Uint8Array(
+    fs.readFileSync(path.join(__dirname, "data", fileName))
+  );
+}
+
+/**
+ * Reads a text file from the test data directory.
+ * @param fileName The name of the file within `tests/data`.
+ * @returns The contents of the file as a string.
+ */
+export function readTestText(fileName: string): string {
+  return fs.readFileSync(path.join(__dirname, "data", fileName), "utf-8");
+}